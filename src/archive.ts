@@ -0,0 +1,349 @@
+/**
+ * Copyright (c) 2025 tranhuucanh39@gmail.com
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { execFileSync } from "child_process";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { executeCommand, sessionHost, TerminalSession } from "./session.js";
+import {
+  parsePrintedValue,
+  posixCommand,
+  printValueCommand,
+  quotePath,
+  shellQuote,
+} from "./quoting.js";
+import { downloadFile, receiveFile, sendFile, TransferOptions, uploadFile } from "./transfer.js";
+import { globToRegExp } from "./utils.js";
+
+export interface ArchiveOptions extends TransferOptions {
+  include?: string[];
+  exclude?: string[];
+  dryRun?: boolean;
+}
+
+export interface PathTransferResult {
+  text: string;
+  bytes: number | null;
+}
+
+interface ArchiveSource {
+  base: string;
+  glob: string | null;
+  destination: string;
+}
+
+interface LocalEntry {
+  rel: string;
+  isDirectory: boolean;
+  size: number;
+}
+
+export const DRY_RUN_LIST_LIMIT = 200;
+
+export function hasGlob(value: string): boolean {
+  return /[*?]/.test(value);
+}
+
+function splitGlob(value: string): { base: string; glob: string } {
+  const segments = value.split("/");
+  const index = segments.findIndex(hasGlob);
+  const base = segments.slice(0, index).join("/");
+  return { base: base || (value.startsWith("/") ? "/" : "."), glob: segments.slice(index).join("/") };
+}
+
+function normalizePattern(pattern: string): string {
+  return pattern.replace(/^\.\//, "").replace(/\/+$/, "");
+}
+
+function matchesAny(patterns: string[], rel: string): boolean {
+  return patterns.some((pattern) => globToRegExp(normalizePattern(pattern)).test(rel));
+}
+
+function isSelected(rel: string, isDirectory: boolean, source: ArchiveSource, options: ArchiveOptions): boolean {
+  const segments = rel.split("/");
+
+  if (source.glob) {
+    const depth = source.glob.split("/").length;
+    if (segments.length < depth || !globToRegExp(source.glob).test(segments.slice(0, depth).join("/"))) {
+      return false;
+    }
+  }
+
+  const exclude = options.exclude || [];
+  for (let i = 1; i <= segments.length; i++) {
+    if (matchesAny(exclude, segments.slice(0, i).join("/"))) {
+      return false;
+    }
+  }
+
+  const include = options.include || [];
+  return include.length === 0 || (!isDirectory && matchesAny(include, rel));
+}
+
+function walkLocal(base: string, rel: string = ""): LocalEntry[] {
+  const entries: LocalEntry[] = [];
+
+  for (const dirent of fs.readdirSync(path.join(base, rel), { withFileTypes: true })) {
+    const entryRel = rel ? `${rel}/${dirent.name}` : dirent.name;
+    const stats = fs.lstatSync(path.join(base, entryRel));
+    entries.push({ rel: entryRel, isDirectory: stats.isDirectory(), size: stats.isFile() ? stats.size : 0 });
+    if (stats.isDirectory()) {
+      entries.push(...walkLocal(base, entryRel));
+    }
+  }
+
+  return entries;
+}
+
+function findExpression(source: ArchiveSource, options: ArchiveOptions, action: string = "-print"): string {
+  const parts: string[] = [];
+
+  if (source.glob) {
+    const tooDeep = "./" + new Array(source.glob.split("/").length + 1).fill("*").join("/");
+    parts.push(
+      `\\( \\( -path ${shellQuote(`./${source.glob}`)} ! -path ${shellQuote(tooDeep)} \\) ` +
+      `-o -path ${shellQuote(`./${source.glob}/*`)} \\)`
+    );
+  }
+
+  for (const pattern of (options.exclude || []).map(normalizePattern)) {
+    parts.push(`! -path ${shellQuote(`./${pattern}`)} ! -path ${shellQuote(`./${pattern}/*`)}`);
+  }
+
+  const include = (options.include || []).map(normalizePattern);
+  if (include.length > 0) {
+    parts.push(`! -type d \\( ${include.map((pattern) => `-path ${shellQuote(`./${pattern}`)}`).join(" -o ")} \\)`);
+  }
+
+  return `find . -mindepth 1 ${parts.join(" ")} ${action}`;
+}
+
+function archiveKey(direction: string, session: TerminalSession, from: string, to: string, options: ArchiveOptions): string {
+  return crypto
+    .createHash("sha1")
+    .update(JSON.stringify([direction, sessionHost(session), from, to, options.include || [], options.exclude || []]))
+    .digest("hex")
+    .substring(0, 16);
+}
+
+async function makeRemoteTempDir(session: TerminalSession): Promise<string> {
+  const output = await executeCommand(
+    session,
+    posixCommand(`d=$(mktemp -d "\${TMPDIR:-/tmp}/shellkeeper-XXXXXXXX") && ${printValueCommand("dir", `"$d"`)}`, session.shellFamily),
+    10000,
+    { label: "(create remote temp dir)" }
+  );
+  const dir = parsePrintedValue(output, "dir");
+  if (!dir) {
+    throw new Error(`Could not create a temp directory on the remote host: ${output.trim() || "(no output)"}`);
+  }
+  return dir;
+}
+
+async function removeRemoteTempDir(session: TerminalSession, dir: string): Promise<void> {
+  try {
+    await executeCommand(session, posixCommand(`rm -rf ${shellQuote(dir)}`, session.shellFamily), 10000, { label: `(remove ${dir})` });
+  } catch (error: any) {
+    console.error(`[ShellKeeper] Could not remove remote temp dir ${dir}: ${error.message}`);
+  }
+}
+
+function formatListing(action: string, from: string, to: string, entries: string[], totalBytes: number | null): string {
+  const shown = entries.slice(0, DRY_RUN_LIST_LIMIT);
+  return (
+    `Dry run: would ${action} ${entries.length} entr${entries.length === 1 ? "y" : "ies"}` +
+    (totalBytes !== null ? ` (${(totalBytes / 1024).toFixed(2)}KB)` : "") +
+    ` from ${from} to ${to}\n` +
+    shown.map((entry) => `  ${entry}`).join("\n") +
+    (entries.length > shown.length ? `\n  ... ${entries.length - shown.length} more` : "")
+  );
+}
+
+export async function uploadPath(
+  session: TerminalSession,
+  localPath: string,
+  remotePath: string,
+  options: ArchiveOptions = {}
+): Promise<PathTransferResult> {
+  let source: ArchiveSource;
+  if (hasGlob(localPath)) {
+    const { base, glob } = splitGlob(localPath);
+    source = { base, glob, destination: remotePath };
+  } else if (fs.existsSync(localPath) && fs.statSync(localPath).isDirectory()) {
+    source = { base: localPath, glob: null, destination: path.posix.join(remotePath, path.basename(path.resolve(localPath))) };
+  } else if (options.dryRun) {
+    if (!fs.existsSync(localPath)) {
+      throw new Error(`Local file not found: ${localPath}`);
+    }
+    const size = fs.statSync(localPath).size;
+    return { text: formatListing("upload", localPath, remotePath, [path.basename(localPath)], size), bytes: size };
+  } else {
+    return { text: await uploadFile(session, localPath, remotePath, options), bytes: fs.statSync(localPath).size };
+  }
+
+  if (!fs.existsSync(source.base) || !fs.statSync(source.base).isDirectory()) {
+    throw new Error(`Local directory not found: ${source.base}`);
+  }
+
+  const entries = walkLocal(source.base).filter((entry) => isSelected(entry.rel, entry.isDirectory, source, options));
+  if (entries.length === 0) {
+    throw new Error(`No local files match ${localPath} with the given include/exclude patterns`);
+  }
+
+  const totalBytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+  if (options.dryRun) {
+    return {
+      text: formatListing(
+        "upload",
+        localPath,
+        source.destination,
+        entries.map((entry) => (entry.isDirectory ? `${entry.rel}/` : entry.rel)),
+        totalBytes
+      ),
+      bytes: totalBytes,
+    };
+  }
+
+  const key = archiveKey("upload", session, path.resolve(localPath), remotePath, options);
+  const listFile = path.join(os.tmpdir(), `shellkeeper-${key}.local.list`);
+  const tarFile = path.join(os.tmpdir(), `shellkeeper-${key}.local.tar`);
+  let remoteDir: string | null = null;
+
+  try {
+    fs.writeFileSync(listFile, entries.map((entry) => `./${entry.rel}\0`).join(""));
+    try {
+      execFileSync("tar", ["-c", "-f", tarFile, "--no-recursion", "--null", "-T", listFile], {
+        cwd: source.base,
+        stdio: "pipe",
+      });
+    } catch (error: any) {
+      throw new Error(`Could not pack ${localPath} with tar: ${(error.stderr || error.message).toString().trim()}`);
+    }
+
+    remoteDir = await makeRemoteTempDir(session);
+    const transfer = await sendFile(session, tarFile, path.posix.join(remoteDir, "archive.tar"), { ...options, overwrite: true });
+    await executeCommand(
+      session,
+      posixCommand(
+        [
+          `t=${shellQuote(transfer.remotePath)}`,
+          `d=${quotePath(source.destination)}`,
+          `mkdir -p "$d" && cd "$d" && tar -x -p --no-same-owner -f "$t"`,
+        ].join("; "),
+        session.shellFamily
+      ),
+      60000,
+      { label: `(unpack ${path.basename(tarFile)} into ${source.destination})` }
+    );
+
+    return {
+      text:
+        `Uploaded ${entries.length} entries (${(totalBytes / 1024).toFixed(2)}KB) from ${localPath} to ${source.destination}\n` +
+        `Permissions and modification times preserved\n${transfer.summary}`,
+      bytes: totalBytes,
+    };
+  } finally {
+    fs.rmSync(listFile, { force: true });
+    fs.rmSync(tarFile, { force: true });
+    if (remoteDir) {
+      await removeRemoteTempDir(session, remoteDir);
+    }
+  }
+}
+
+export async function downloadPath(
+  session: TerminalSession,
+  remotePath: string,
+  localPath: string,
+  options: ArchiveOptions = {}
+): Promise<PathTransferResult> {
+  let source: ArchiveSource;
+  if (hasGlob(remotePath)) {
+    const { base, glob } = splitGlob(remotePath);
+    source = { base, glob, destination: localPath };
+  } else {
+    const probe = await executeCommand(
+      session,
+      posixCommand(`p=${quotePath(remotePath)}; if [ -d "$p" ]; then cd "$p" && ${printValueCommand("dir", `"$(pwd)"`)}; fi`, session.shellFamily),
+      10000,
+      { label: `(check ${remotePath})` }
+    );
+    const dir = parsePrintedValue(probe, "dir");
+    if (!dir) {
+      if (options.dryRun) {
+        return { text: formatListing("download", remotePath, localPath, [path.posix.basename(remotePath)], null), bytes: null };
+      }
+      return { text: await downloadFile(session, remotePath, localPath, options), bytes: fs.statSync(localPath).size };
+    }
+    source = { base: dir, glob: null, destination: path.join(localPath, path.posix.basename(dir) || "root") };
+  }
+
+  if (options.dryRun) {
+    const listing = await executeCommand(
+      session,
+      posixCommand(`cd ${quotePath(source.base)} && ${findExpression(source, options)}`, session.shellFamily),
+      60000,
+      { label: `(list ${remotePath})` }
+    );
+    const entries = listing.split("\n").filter((line) => line.trim()).map((line) => line.replace(/^\.\//, ""));
+    if (entries.length === 0) {
+      throw new Error(`No remote files match ${remotePath} with the given include/exclude patterns`);
+    }
+    return { text: formatListing("download", remotePath, source.destination, entries, null), bytes: null };
+  }
+
+  const key = archiveKey("download", session, remotePath, path.resolve(localPath), options);
+  const tarFile = path.join(os.tmpdir(), `shellkeeper-${key}.local.tar`);
+  const remoteDir = await makeRemoteTempDir(session);
+  const remoteTar = path.posix.join(remoteDir, "archive.tar");
+  try {
+    const packed = await executeCommand(
+      session,
+      posixCommand(
+        [
+          `t=${shellQuote(remoteTar)}`,
+          `cd ${quotePath(source.base)} || exit 1`,
+          `${findExpression(source, options, "-print0")} > "$t.list"`,
+          `n=$(tr -dc '\\000' < "$t.list" | wc -c)`,
+          `if [ "$n" -gt 0 ]; then tar -c -f "$t" --no-recursion --null -T "$t.list"; fi`,
+          `s=$?`,
+          `echo "entries=$n"`,
+          `exit $s`,
+        ].join("; "),
+        session.shellFamily
+      ),
+      120000,
+      { label: `(pack ${remotePath})` }
+    );
+
+    const entryCount = parseInt(packed.match(/entries=\s*(\d+)/)?.[1] || "0", 10);
+    if (entryCount === 0) {
+      throw new Error(`No remote files match ${remotePath} with the given include/exclude patterns`);
+    }
+
+    const transfer = await receiveFile(session, remoteTar, tarFile, options);
+
+    fs.mkdirSync(source.destination, { recursive: true });
+    try {
+      execFileSync("tar", ["-x", "-p", "--no-same-owner", "-f", tarFile], { cwd: source.destination, stdio: "pipe" });
+    } catch (error: any) {
+      throw new Error(`Could not unpack into ${source.destination}: ${(error.stderr || error.message).toString().trim()}`);
+    }
+
+    return {
+      text:
+        `Downloaded ${entryCount} entries (${(transfer.size / 1024).toFixed(2)}KB archive) from ${remotePath} to ${source.destination}\n` +
+        `Permissions and modification times preserved\n${transfer.summary}`,
+      bytes: transfer.size,
+    };
+  } finally {
+    fs.rmSync(tarFile, { force: true });
+    await removeRemoteTempDir(session, remoteDir);
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * Copyright (c) 2025 tranhuucanh39@gmail.com
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { getConfig } from "./config.js";
+import { currentFrame } from "./context.js";
+import { redactSecrets } from "./redact.js";
+import { sessionHost, TerminalSession } from "./session.js";
+import { globToRegExp } from "./utils.js";
+
+export type AuditEvent =
+  | "command"
+  | "job_start"
+  | "input"
+  | "interrupt"
+  | "upload"
+  | "download"
+  | "read_file"
+  | "write_file"
+  | "patch_file"
+  | "session_create"
+  | "session_close"
+  | "session_exit";
+
+export type AuditStatus = "ok" | "error" | "denied";
+
+export interface AuditRecord {
+  timestamp: string;
+  event: AuditEvent;
+  session_id: string;
+  host: string;
+  user?: string | null;
+  hops?: string[];
+  status: AuditStatus;
+  command?: string;
+  exit_code?: number | null;
+  duration_ms?: number;
+  bytes?: number;
+  local_path?: string;
+  remote_path?: string;
+  dry_run?: boolean;
+  output_sha256?: string;
+  error?: string;
+  [key: string]: unknown;
+}
+
+export interface AuditConfig {
+  enabled?: boolean;
+  path?: string;
+  max_size_mb?: number;
+  max_files?: number;
+}
+
+export interface AuditQuery {
+  sessionId?: string;
+  host?: string;
+  event?: string;
+  since?: Date;
+  until?: Date;
+  contains?: string;
+  limit?: number;
+}
+
+export const DEFAULT_AUDIT_PATH = path.join(os.homedir(), ".shellkeeper", "audit.jsonl");
+export const DEFAULT_AUDIT_MAX_SIZE = 10 * 1024 * 1024;
+export const DEFAULT_AUDIT_MAX_FILES = 5;
+
+function auditSettings() {
+  const audit: AuditConfig = getConfig().audit || {};
+  const configuredPath = audit.path || process.env.SHELLKEEPER_AUDIT_LOG || DEFAULT_AUDIT_PATH;
+
+  return {
+    enabled: audit.enabled !== false,
+    path: path.resolve(configuredPath.replace(/^~(?=$|\/)/, os.homedir())),
+    maxSize: audit.max_size_mb ? audit.max_size_mb * 1024 * 1024 : DEFAULT_AUDIT_MAX_SIZE,
+    maxFiles: Math.max(1, audit.max_files ?? DEFAULT_AUDIT_MAX_FILES),
+  };
+}
+
+export function getAuditPath(): string | null {
+  const settings = auditSettings();
+  return settings.enabled ? settings.path : null;
+}
+
+export function hashOutput(output: string): string {
+  return createHash("sha256").update(output).digest("hex");
+}
+
+function rotate(file: string, maxFiles: number): void {
+  const oldest = `${file}.${maxFiles}`;
+  if (fs.existsSync(oldest)) {
+    fs.unlinkSync(oldest);
+  }
+
+  for (let i = maxFiles - 1; i >= 1; i--) {
+    if (fs.existsSync(`${file}.${i}`)) {
+      fs.renameSync(`${file}.${i}`, `${file}.${i + 1}`);
+    }
+  }
+
+  fs.renameSync(file, `${file}.1`);
+}
+
+export function auditLocation(session: TerminalSession): Pick<AuditRecord, "host" | "user" | "hops"> {
+  const frame = currentFrame(session.context);
+  return {
+    host: frame ? frame.host : sessionHost(session),
+    user: frame ? frame.user : null,
+    hops: session.context.frames.map((hop) => `${hop.user}@${hop.host}`),
+  };
+}
+
+export function audit(event: AuditEvent, session: TerminalSession, fields: Partial<AuditRecord> = {}): void {
+  const settings = auditSettings();
+  if (!settings.enabled) {
+    return;
+  }
+
+  const record: AuditRecord = {
+    timestamp: new Date().toISOString(),
+    event,
+    session_id: session.id,
+    ...auditLocation(session),
+    status: "ok",
+    ...fields,
+  };
+  if (record.command) {
+    record.command = redactSecrets(record.command);
+  }
+  if (record.error) {
+    record.error = redactSecrets(record.error);
+  }
+  const line = JSON.stringify(record) + "\n";
+
+  try {
+    fs.mkdirSync(path.dirname(settings.path), { recursive: true });
+
+    if (fs.existsSync(settings.path) && fs.statSync(settings.path).size + line.length > settings.maxSize) {
+      rotate(settings.path, settings.maxFiles);
+    }
+
+    fs.appendFileSync(settings.path, line, { mode: 0o600 });
+  } catch (error: any) {
+    console.error(`[ShellKeeper] Failed to write audit log ${settings.path}: ${error.message}`);
+  }
+}
+
+export function queryAudit(query: AuditQuery): AuditRecord[] {
+  const settings = auditSettings();
+  const files: string[] = [];
+
+  for (let i = settings.maxFiles; i >= 1; i--) {
+    files.push(`${settings.path}.${i}`);
+  }
+  files.push(settings.path);
+
+  const hostPattern = query.host ? globToRegExp(query.host) : null;
+  const matches: AuditRecord[] = [];
+
+  for (const file of files) {
+    if (!fs.existsSync(file)) {
+      continue;
+    }
+
+    for (const line of fs.readFileSync(file, "utf8").split("\n")) {
+      if (!line.trim()) {
+        continue;
+      }
+
+      let record: AuditRecord;
+      try {
+        record = JSON.parse(line);
+      } catch (e) {
+        continue;
+      }
+
+      const timestamp = new Date(record.timestamp);
+      if (query.sessionId && record.session_id !== query.sessionId) continue;
+      if (hostPattern && ![record.host, ...(record.hops || []).map((hop) => hop.split("@").pop()!)].some((host) => hostPattern.test(host))) continue;
+      if (query.event && record.event !== query.event) continue;
+      if (query.since && timestamp < query.since) continue;
+      if (query.until && timestamp > query.until) continue;
+      if (query.contains && !(record.command || "").includes(query.contains)) continue;
+
+      matches.push(record);
+    }
+  }
+
+  const limit = Math.max(1, query.limit ?? 50);
+  return matches.slice(-limit);
+}
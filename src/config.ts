@@ -0,0 +1,227 @@
+/**
+ * Copyright (c) 2025 tranhuucanh39@gmail.com
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { AuditConfig } from "./audit.js";
+import type { DaemonConfig } from "./daemon.js";
+import type { HostPolicyConfig, PolicyConfig } from "./policy.js";
+import type { QueueConfig } from "./queue.js";
+import type { RedactionConfig } from "./redact.js";
+import type { SessionBackend } from "./session.js";
+import type { KnownHostsPolicy } from "./ssh.js";
+
+export interface SshProfileConfig {
+  host: string;
+  user?: string;
+  port?: number;
+  identity_file?: string;
+  agent_forwarding?: boolean;
+  jump_hosts?: string[];
+  known_hosts_policy?: KnownHostsPolicy;
+  ssh_options?: string[];
+}
+
+export interface ProfileConfig {
+  description?: string;
+  shell?: string;
+  cwd?: string;
+  env?: Record<string, string>;
+  init_commands?: string[];
+  ssh?: SshProfileConfig;
+  policy?: string;
+  backend?: SessionBackend;
+  groups?: string[];
+}
+
+export interface ShellKeeperConfig {
+  profiles: Record<string, ProfileConfig>;
+  policies?: Record<string, PolicyConfig>;
+  host_policies?: HostPolicyConfig[];
+  audit?: AuditConfig;
+  redaction?: RedactionConfig;
+  daemon?: DaemonConfig;
+  backend?: SessionBackend;
+  queue?: QueueConfig;
+}
+
+export const CONFIG_FILE_NAME = "shellkeeper.config.json";
+
+let config: ShellKeeperConfig = { profiles: {} };
+let configPath: string | null = null;
+
+export function getConfig(): ShellKeeperConfig {
+  return config;
+}
+
+export function getConfigPath(): string | null {
+  return configPath;
+}
+
+export function configSearchPaths(): string[] {
+  if (process.env.SHELLKEEPER_CONFIG) {
+    return [path.resolve(process.env.SHELLKEEPER_CONFIG)];
+  }
+
+  return [
+    path.resolve(process.cwd(), CONFIG_FILE_NAME),
+    path.join(os.homedir(), ".config", "shellkeeper", "config.json"),
+    path.join(os.homedir(), `.${CONFIG_FILE_NAME}`),
+  ];
+}
+
+export function loadConfig(): ShellKeeperConfig {
+  const candidates = configSearchPaths();
+  const found = candidates.find((candidate) => fs.existsSync(candidate));
+
+  if (!found) {
+    if (process.env.SHELLKEEPER_CONFIG) {
+      throw new Error(`Config file not found: ${candidates[0]}`);
+    }
+    config = { profiles: {} };
+    configPath = null;
+    return config;
+  }
+
+  let raw: any;
+  try {
+    raw = JSON.parse(fs.readFileSync(found, "utf8"));
+  } catch (error: any) {
+    throw new Error(`Invalid config file ${found}: ${error.message}`);
+  }
+
+  config = validateConfig(raw, found);
+  configPath = found;
+  return config;
+}
+
+function validateConfig(raw: any, file: string): ShellKeeperConfig {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error(`Invalid config file ${file}: expected a JSON object`);
+  }
+
+  const profiles = raw.profiles ?? {};
+  if (typeof profiles !== "object" || Array.isArray(profiles)) {
+    throw new Error(`Invalid config file ${file}: "profiles" must be an object keyed by profile name`);
+  }
+
+  for (const [name, profile] of Object.entries<any>(profiles)) {
+    const where = `${file}: profile "${name}"`;
+
+    if (!profile || typeof profile !== "object" || Array.isArray(profile)) {
+      throw new Error(`Invalid config file ${where} must be an object`);
+    }
+    if (profile.env !== undefined && (typeof profile.env !== "object" || Array.isArray(profile.env))) {
+      throw new Error(`Invalid config file ${where}: "env" must be an object of strings`);
+    }
+    if (profile.init_commands !== undefined && !Array.isArray(profile.init_commands)) {
+      throw new Error(`Invalid config file ${where}: "init_commands" must be an array of commands`);
+    }
+    if (profile.ssh !== undefined && (typeof profile.ssh !== "object" || typeof profile.ssh.host !== "string")) {
+      throw new Error(`Invalid config file ${where}: "ssh" must be an object with a "host"`);
+    }
+    if (profile.groups !== undefined && (!Array.isArray(profile.groups) || profile.groups.some((g: any) => typeof g !== "string"))) {
+      throw new Error(`Invalid config file ${where}: "groups" must be an array of group names`);
+    }
+  }
+
+  const policies = raw.policies ?? {};
+  if (typeof policies !== "object" || Array.isArray(policies)) {
+    throw new Error(`Invalid config file ${file}: "policies" must be an object keyed by policy name`);
+  }
+
+  for (const [name, policy] of Object.entries<any>(policies)) {
+    for (const rule of policy?.rules || []) {
+      if (!["allow", "deny", "confirm"].includes(rule.action)) {
+        throw new Error(`Invalid config file ${file}: policy "${name}" has a rule with unknown action "${rule.action}"`);
+      }
+      if (!rule.pattern && !(Array.isArray(rule.argv) && rule.argv.length > 0)) {
+        throw new Error(`Invalid config file ${file}: policy "${name}" has a rule without "pattern" or "argv"`);
+      }
+      if (rule.pattern) {
+        try {
+          new RegExp(rule.pattern, rule.flags);
+        } catch (error: any) {
+          throw new Error(`Invalid config file ${file}: policy "${name}" has an invalid pattern: ${error.message}`);
+        }
+      }
+    }
+  }
+
+  const backends = [raw.backend, ...Object.values<any>(profiles).map((p) => p.backend)];
+  for (const backend of backends) {
+    if (backend !== undefined && backend !== "pty" && backend !== "tmux") {
+      throw new Error(`Invalid config file ${file}: unknown session backend "${backend}" (expected "pty" or "tmux")`);
+    }
+  }
+
+  const hostPolicies = raw.host_policies ?? [];
+  if (!Array.isArray(hostPolicies)) {
+    throw new Error(`Invalid config file ${file}: "host_policies" must be an array`);
+  }
+  for (const [i, entry] of hostPolicies.entries()) {
+    const where = `${file}: host_policies[${i}]`;
+    if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+      throw new Error(`Invalid config file ${where} must be an object`);
+    }
+    if (!Array.isArray(entry.hosts) || entry.hosts.some((host: any) => typeof host !== "string")) {
+      throw new Error(`Invalid config file ${where}: "hosts" must be an array of host globs`);
+    }
+    if (typeof entry.policy !== "string") {
+      throw new Error(`Invalid config file ${where}: "policy" must be a policy name`);
+    }
+  }
+
+  if (raw.audit !== undefined && (typeof raw.audit !== "object" || Array.isArray(raw.audit))) {
+    throw new Error(`Invalid config file ${file}: "audit" must be an object`);
+  }
+
+  for (const [i, entry] of (raw.redaction?.patterns || []).entries()) {
+    try {
+      new RegExp(entry.pattern, `${entry.flags || ""}`.replace(/g/g, "") + "g");
+    } catch (error: any) {
+      throw new Error(`Invalid config file ${file}: redaction.patterns[${i}] is not a valid regular expression: ${error.message}`);
+    }
+  }
+
+  const policyRefs = [
+    ...Object.entries<any>(profiles).filter(([, p]) => p.policy).map(([name, p]) => [`profile "${name}"`, p.policy]),
+    ...hostPolicies.map((hp: any, i: number) => [`host_policies[${i}]`, hp.policy]),
+  ];
+  for (const [where, policyName] of policyRefs) {
+    if (!policies[policyName]) {
+      throw new Error(`Invalid config file ${file}: ${where} references unknown policy "${policyName}"`);
+    }
+  }
+
+  return { ...raw, profiles, policies, host_policies: hostPolicies };
+}
+
+export function getProfile(name: string): ProfileConfig {
+  const profile = config.profiles[name];
+  if (!profile) {
+    const available = Object.keys(config.profiles);
+    throw new Error(
+      `Profile ${name} not found. ` +
+      (available.length > 0 ? `Available profiles: ${available.join(", ")}` : `No profiles are configured.`)
+    );
+  }
+  return profile;
+}
+
+export function getProfileGroup(group: string): string[] {
+  const members = Object.keys(config.profiles).filter((name) => config.profiles[name].groups?.includes(group));
+  if (members.length === 0) {
+    const groups = [...new Set(Object.values(config.profiles).flatMap((profile) => profile.groups || []))];
+    throw new Error(
+      `Profile group ${group} not found. ` +
+      (groups.length > 0 ? `Available groups: ${groups.join(", ")}` : `No profile has "groups" configured.`)
+    );
+  }
+  return members;
+}
@@ -0,0 +1,123 @@
+/**
+ * Copyright (c) 2025 tranhuucanh39@gmail.com
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+/**
+ * Where a session currently is: working directory, user, host, OS and shell,
+ * plus the stack of shells it went through to get there.
+ *
+ * Each shell that installs the integration hook records its own identity once
+ * (see shellIntegrationScript), and every command trailer reports it back. A
+ * shell that has not been seen before is pushed as a new frame (ssh, sudo -i,
+ * su, a nested bash); seeing an outer frame again means the inner shells have
+ * exited, so the stack is cut back to it.
+ *
+ * Frames that disappear without the caller asking for an exit mean a
+ * connection dropped underneath the session; the session is then marked
+ * degraded until someone reconnects or acknowledges the new location.
+ */
+
+export interface ShellFrame {
+  user: string;
+  host: string;
+  os: string;
+  shell: string;
+  pid: string;
+  sshConnection: string | null;
+  via: "local" | "ssh" | "shell";
+  command: string | null;
+}
+
+export interface SessionContext {
+  cwd: string | null;
+  frames: ShellFrame[];
+  updatedAt: Date | null;
+  exitRequested: boolean;
+}
+
+export interface DegradedState {
+  reason: string;
+  detectedAt: Date;
+  lostFrames: ShellFrame[];
+  cwd: string | null;
+}
+
+const DISCONNECT_PATTERN =
+  /client_loop: send disconnect[^\r\n]*|packet_write_wait: Connection to [^\r\n]*|Timeout, server \S+ not responding|Connection to \S+ closed by remote host/;
+
+export function createContext(): SessionContext {
+  return { cwd: null, frames: [], updatedAt: null, exitRequested: false };
+}
+
+export function isIntentionalExit(command: string): boolean {
+  return /^\s*(exit|logout)\b/.test(command) || /(^|\n)~\.$/.test(command.trim());
+}
+
+export function findDisconnectMessage(output: string): string | null {
+  return output.match(DISCONNECT_PATTERN)?.[0] ?? null;
+}
+
+function parseReport(report: string): Omit<ShellFrame, "via" | "command"> | null {
+  const [user, host, os, shell, pid, sshConnection] = report.split("|");
+  if (!host || !pid) {
+    return null;
+  }
+  return {
+    user: user || "?",
+    host,
+    os: os || "?",
+    shell: (shell || "?").replace(/^-/, ""),
+    pid,
+    sshConnection: sshConnection || null,
+  };
+}
+
+export function updateContext(
+  context: SessionContext,
+  report: string | null,
+  cwd: string | null,
+  command: string | null = null
+): ShellFrame[] {
+  context.updatedAt = new Date();
+  if (cwd) {
+    context.cwd = cwd;
+  }
+
+  const frame = report ? parseReport(report) : null;
+  if (!frame) {
+    return [];
+  }
+
+  const index = context.frames.findIndex((known) => known.host === frame.host && known.pid === frame.pid);
+  if (index !== -1) {
+    const dropped = context.frames.splice(index + 1);
+    context.frames[index] = { ...frame, via: context.frames[index].via, command: context.frames[index].command };
+    return dropped;
+  }
+
+  const parent = context.frames[context.frames.length - 1];
+  const via = frame.sshConnection && frame.sshConnection !== parent?.sshConnection ? "ssh" : parent ? "shell" : "local";
+  context.frames.push({ ...frame, via, command });
+  return [];
+}
+
+export function currentFrame(context: SessionContext): ShellFrame | null {
+  return context.frames[context.frames.length - 1] || null;
+}
+
+export function sshHops(context: SessionContext): ShellFrame[] {
+  return context.frames.filter((frame) => frame.via === "ssh");
+}
+
+export function formatLocation(context: SessionContext): string {
+  const frame = currentFrame(context);
+  const where = frame ? `${frame.user}@${frame.host}` : "unknown";
+  return context.cwd ? `${where}:${context.cwd}` : where;
+}
+
+export function formatHops(context: SessionContext): string {
+  return context.frames.map((frame) => `${frame.user}@${frame.host}${frame.via === "shell" ? ` (${frame.shell})` : ""}`).join(" → ");
+}
@@ -0,0 +1,367 @@
+/**
+ * Copyright (c) 2025 tranhuucanh39@gmail.com
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { spawn } from "child_process";
+import * as fs from "fs";
+import * as net from "net";
+import * as os from "os";
+import * as path from "path";
+import * as pty from "node-pty";
+import { getConfig } from "./config.js";
+import type { PtyLike, SessionMetadata } from "./session.js";
+import { sleep } from "./utils.js";
+
+export interface DaemonConfig {
+  enabled?: boolean;
+  socket?: string;
+}
+
+export interface DaemonSessionInfo {
+  id: string;
+  pid: number;
+  meta: SessionMetadata;
+}
+
+interface DaemonPty {
+  id: string;
+  pty: pty.IPty;
+  meta: SessionMetadata;
+  backlog: string;
+  clients: Set<net.Socket>;
+}
+
+interface DaemonClient {
+  socket: net.Socket;
+  handlers: Map<string, (message: any) => void>;
+  listWaiters: Array<(sessions: DaemonSessionInfo[]) => void>;
+}
+
+export const DEFAULT_DAEMON_SOCKET = path.join(os.homedir(), ".shellkeeper", "daemon.sock");
+export const DAEMON_BACKLOG_LIMIT = 256 * 1024;
+export const DAEMON_START_TIMEOUT = 5000;
+
+let client: DaemonClient | null = null;
+
+export function isDetachedMode(): boolean {
+  return getConfig().daemon?.enabled === true || process.env.SHELLKEEPER_DETACHED === "1";
+}
+
+export function daemonSocketPath(): string {
+  const configured = getConfig().daemon?.socket || process.env.SHELLKEEPER_DAEMON_SOCKET || DEFAULT_DAEMON_SOCKET;
+  return path.resolve(configured.replace(/^~(?=$|\/)/, os.homedir()));
+}
+
+function send(socket: net.Socket, message: object): void {
+  if (!socket.destroyed) {
+    socket.write(JSON.stringify(message) + "\n");
+  }
+}
+
+function readMessages(socket: net.Socket, onMessage: (message: any) => void): void {
+  let pending = "";
+  socket.setEncoding("utf8");
+  socket.on("data", (chunk: string) => {
+    pending += chunk;
+    let newline: number;
+    while ((newline = pending.indexOf("\n")) >= 0) {
+      const line = pending.substring(0, newline);
+      pending = pending.substring(newline + 1);
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        onMessage(JSON.parse(line));
+      } catch (error: any) {
+        console.error(`[ShellKeeper] Invalid daemon message: ${error.message}`);
+      }
+    }
+  });
+}
+
+function tryConnect(socketPath: string): Promise<net.Socket | null> {
+  return new Promise((resolve) => {
+    const socket = net.createConnection(socketPath);
+    socket.once("connect", () => resolve(socket));
+    socket.once("error", () => resolve(null));
+  });
+}
+
+export async function runDaemon(socketPath: string = daemonSocketPath()): Promise<void> {
+  fs.mkdirSync(path.dirname(socketPath), { recursive: true, mode: 0o700 });
+
+  if (fs.existsSync(socketPath)) {
+    const existing = await tryConnect(socketPath);
+    if (existing) {
+      existing.destroy();
+      throw new Error(`A ShellKeeper daemon is already listening on ${socketPath}`);
+    }
+    fs.unlinkSync(socketPath);
+  }
+
+  const ptys = new Map<string, DaemonPty>();
+  const clients = new Set<net.Socket>();
+
+  const exitIfIdle = () => {
+    if (ptys.size === 0 && clients.size === 0) {
+      console.error("[ShellKeeper] Daemon has no sessions or clients left, exiting");
+      server.close();
+      fs.rmSync(socketPath, { force: true });
+      process.exit(0);
+    }
+  };
+
+  const handleMessage = (socket: net.Socket, message: any) => {
+    const entry = ptys.get(message.id);
+
+    switch (message.type) {
+      case "spawn": {
+        if (entry) {
+          send(socket, { type: "exit", id: message.id, exitCode: 1, error: `Session ${message.id} already exists in the daemon` });
+          return;
+        }
+
+        let child: pty.IPty;
+        try {
+          child = pty.spawn(message.file, message.args, message.options);
+        } catch (error: any) {
+          send(socket, { type: "exit", id: message.id, exitCode: 1, error: error.message });
+          return;
+        }
+
+        const created: DaemonPty = { id: message.id, pty: child, meta: message.meta, backlog: "", clients: new Set([socket]) };
+        ptys.set(message.id, created);
+
+        child.onData((data) => {
+          created.backlog += data;
+          if (created.backlog.length > DAEMON_BACKLOG_LIMIT) {
+            created.backlog = created.backlog.substring(created.backlog.length - DAEMON_BACKLOG_LIMIT);
+          }
+          created.clients.forEach((c) => send(c, { type: "data", id: created.id, data }));
+        });
+
+        child.onExit(({ exitCode, signal }) => {
+          ptys.delete(created.id);
+          created.clients.forEach((c) => send(c, { type: "exit", id: created.id, exitCode, signal }));
+          exitIfIdle();
+        });
+
+        send(socket, { type: "spawned", id: message.id, pid: child.pid });
+        break;
+      }
+
+      case "attach":
+        if (!entry) {
+          send(socket, { type: "exit", id: message.id, exitCode: 1, error: `Session ${message.id} not found in the daemon` });
+          return;
+        }
+        entry.clients.add(socket);
+        send(socket, { type: "attached", id: entry.id, pid: entry.pty.pid, backlog: entry.backlog });
+        break;
+
+      case "write":
+        entry?.pty.write(message.data);
+        break;
+
+      case "resize":
+        entry?.pty.resize(message.cols, message.rows);
+        break;
+
+      case "kill":
+        entry?.pty.kill(message.signal);
+        break;
+
+      case "meta":
+        if (entry) {
+          entry.meta = { ...entry.meta, ...message.meta };
+        }
+        break;
+
+      case "list":
+        send(socket, {
+          type: "list",
+          sessions: Array.from(ptys.values()).map((p) => ({ id: p.id, pid: p.pty.pid, meta: p.meta })),
+        });
+        break;
+
+      default:
+        console.error(`[ShellKeeper] Unknown daemon message type: ${message.type}`);
+    }
+  };
+
+  const server = net.createServer((socket) => {
+    clients.add(socket);
+    readMessages(socket, (message) => handleMessage(socket, message));
+
+    socket.on("error", () => socket.destroy());
+    socket.on("close", () => {
+      clients.delete(socket);
+      ptys.forEach((entry) => entry.clients.delete(socket));
+      exitIfIdle();
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(socketPath, () => resolve());
+  });
+  fs.chmodSync(socketPath, 0o600);
+
+  console.error(`[ShellKeeper] Daemon listening on ${socketPath}`);
+}
+
+function startDaemonProcess(socketPath: string): void {
+  const logFile = path.join(path.dirname(socketPath), "daemon.log");
+  fs.mkdirSync(path.dirname(socketPath), { recursive: true, mode: 0o700 });
+  const log = fs.openSync(logFile, "a");
+
+  const child = spawn(process.execPath, [process.argv[1], "--daemon"], {
+    detached: true,
+    stdio: ["ignore", log, log],
+    env: { ...process.env, SHELLKEEPER_DAEMON_SOCKET: socketPath },
+  });
+  child.unref();
+  fs.closeSync(log);
+
+  console.error(`[ShellKeeper] Started daemon (pid ${child.pid}), log: ${logFile}`);
+}
+
+export async function connectDaemon(socketPath: string = daemonSocketPath()): Promise<void> {
+  if (client) {
+    return;
+  }
+
+  let socket = await tryConnect(socketPath);
+  if (!socket) {
+    startDaemonProcess(socketPath);
+
+    const startTime = Date.now();
+    while (!socket && Date.now() - startTime < DAEMON_START_TIMEOUT) {
+      await sleep(100);
+      socket = await tryConnect(socketPath);
+    }
+    if (!socket) {
+      throw new Error(`Could not connect to the ShellKeeper daemon at ${socketPath}`);
+    }
+  }
+
+  const connected: DaemonClient = { socket, handlers: new Map(), listWaiters: [] };
+  client = connected;
+
+  readMessages(socket, (message) => {
+    if (message.type === "list") {
+      connected.listWaiters.shift()?.(message.sessions);
+    } else {
+      connected.handlers.get(message.id)?.(message);
+    }
+  });
+
+  socket.on("error", (error) => {
+    console.error(`[ShellKeeper] Daemon connection error: ${error.message}`);
+  });
+  socket.on("close", () => {
+    console.error("[ShellKeeper] Lost connection to the daemon");
+    client = null;
+    connected.listWaiters.forEach((resolve) => resolve([]));
+    connected.handlers.forEach((handler, id) => handler({ type: "exit", id, exitCode: -1 }));
+  });
+
+  console.error(`[ShellKeeper] Connected to daemon at ${socketPath}`);
+}
+
+export function listDaemonSessions(): Promise<DaemonSessionInfo[]> {
+  const connected = client;
+  if (!connected) {
+    return Promise.resolve([]);
+  }
+
+  return new Promise((resolve) => {
+    connected.listWaiters.push(resolve);
+    send(connected.socket, { type: "list" });
+  });
+}
+
+function remotePty(id: string, pid: number): PtyLike {
+  const connected = client;
+  if (!connected) {
+    throw new Error("Detached mode is enabled but the daemon is not connected");
+  }
+
+  const dataListeners = new Set<(data: string) => void>();
+  const queued: string[] = [];
+  const exitListeners = new Set<(event: { exitCode: number; signal?: number }) => void>();
+
+  const remote: PtyLike = {
+    pid,
+    write: (data) => send(connected.socket, { type: "write", id, data }),
+    resize: (cols, rows) => send(connected.socket, { type: "resize", id, cols, rows }),
+    kill: (signal) => send(connected.socket, { type: "kill", id, signal }),
+    updateMeta: (changes) => send(connected.socket, { type: "meta", id, meta: changes }),
+    onData: (listener) => {
+      dataListeners.add(listener);
+      queued.splice(0).forEach((data) => listener(data));
+      return { dispose: () => dataListeners.delete(listener) };
+    },
+    onExit: (listener) => {
+      exitListeners.add(listener);
+      return { dispose: () => exitListeners.delete(listener) };
+    },
+  };
+
+  connected.handlers.set(id, (message) => {
+    switch (message.type) {
+      case "spawned":
+        remote.pid = message.pid;
+        break;
+      case "data":
+        if (dataListeners.size === 0) {
+          queued.push(message.data);
+        }
+        dataListeners.forEach((listener) => listener(message.data));
+        break;
+      case "exit":
+        if (message.error) {
+          console.error(`[ShellKeeper] Daemon session ${id}: ${message.error}`);
+        }
+        connected.handlers.delete(id);
+        exitListeners.forEach((listener) => listener({ exitCode: message.exitCode, signal: message.signal }));
+        break;
+    }
+  });
+
+  return remote;
+}
+
+export function spawnDetachedPty(
+  id: string,
+  file: string,
+  args: string[],
+  options: pty.IPtyForkOptions,
+  meta: SessionMetadata
+): PtyLike {
+  const remote = remotePty(id, 0);
+  send(client!.socket, { type: "spawn", id, file, args, options, meta });
+  return remote;
+}
+
+export function attachDetachedPty(info: DaemonSessionInfo): Promise<{ ptyProcess: PtyLike; backlog: string }> {
+  const remote = remotePty(info.id, info.pid);
+  const connected = client!;
+  const handler = connected.handlers.get(info.id)!;
+
+  return new Promise((resolve, reject) => {
+    connected.handlers.set(info.id, (message) => {
+      if (message.type === "attached") {
+        connected.handlers.set(info.id, handler);
+        resolve({ ptyProcess: remote, backlog: message.backlog || "" });
+      } else if (message.type === "exit") {
+        connected.handlers.delete(info.id);
+        reject(new Error(message.error || `Session ${info.id} exited before it could be attached`));
+      }
+    });
+    send(connected.socket, { type: "attach", id: info.id });
+  });
+}
@@ -0,0 +1,171 @@
+/**
+ * Copyright (c) 2025 tranhuucanh39@gmail.com
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+/**
+ * Running one command on many sessions at once and comparing the results.
+ *
+ * Sessions are grouped by exit code and output; the largest group is taken as
+ * the expected result, and every other session is shown as a line diff
+ * against it, so one odd server out of ten stands out without reading all ten
+ * outputs.
+ */
+
+export type FanoutStatus = "ok" | "failed" | "error";
+
+export interface FanoutResult {
+  sessionId: string;
+  location: string | null;
+  status: FanoutStatus;
+  exitCode: number | null;
+  durationMs: number;
+  stdout: string;
+  stderr: string | null;
+  truncated: boolean;
+  outputId: string | null;
+  error: string | null;
+}
+
+export interface FanoutGroup {
+  sessionIds: string[];
+  exitCode: number | null;
+  output: string;
+}
+
+export interface FanoutSummary {
+  total: number;
+  ok: number;
+  failed: number;
+  errors: number;
+  majority: FanoutGroup | null;
+  outliers: FanoutGroup[];
+}
+
+export const DEFAULT_FANOUT_CONCURRENCY = 5;
+export const MAX_FANOUT_CONCURRENCY = 20;
+export const MAX_FANOUT_SESSIONS = 100;
+
+const MAX_DIFF_LINES = 500;
+const DIFF_CONTEXT = 2;
+
+export async function runWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+function groupOutput(result: FanoutResult): string {
+  return result.status === "error" ? `error: ${result.error}` : result.stdout.trim();
+}
+
+export function summarizeFanout(results: FanoutResult[]): FanoutSummary {
+  const groups = new Map<string, FanoutGroup>();
+
+  for (const result of results) {
+    const output = groupOutput(result);
+    const key = `${result.exitCode}\0${output}`;
+    const group = groups.get(key);
+    if (group) {
+      group.sessionIds.push(result.sessionId);
+    } else {
+      groups.set(key, { sessionIds: [result.sessionId], exitCode: result.exitCode, output });
+    }
+  }
+
+  const sorted = Array.from(groups.values()).sort((a, b) => b.sessionIds.length - a.sessionIds.length);
+  const hasMajority =
+    sorted.length === 1 ||
+    (sorted.length > 1 && sorted[0].sessionIds.length > 1 && sorted[0].sessionIds.length !== sorted[1].sessionIds.length);
+
+  return {
+    total: results.length,
+    ok: results.filter((result) => result.status === "ok").length,
+    failed: results.filter((result) => result.status === "failed").length,
+    errors: results.filter((result) => result.status === "error").length,
+    majority: hasMajority ? sorted[0] : null,
+    outliers: hasMajority ? sorted.slice(1) : sorted,
+  };
+}
+
+export function diffLines(expected: string, actual: string): string[] {
+  const a = expected.split("\n");
+  const b = actual.split("\n");
+  if (a.length > MAX_DIFF_LINES || b.length > MAX_DIFF_LINES) {
+    return [`(outputs differ; ${a.length} vs ${b.length} lines, too long to diff here)`];
+  }
+
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push(` ${a[i++]}`);
+      j++;
+    } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      ops.push(`-${a[i++]}`);
+    } else {
+      ops.push(`+${b[j++]}`);
+    }
+  }
+
+  const keep = ops.map((op, index) =>
+    ops.slice(Math.max(0, index - DIFF_CONTEXT), index + DIFF_CONTEXT + 1).some((near) => near[0] !== " ")
+  );
+  const lines: string[] = [];
+  ops.forEach((op, index) => {
+    if (keep[index]) {
+      lines.push(op);
+    } else if (keep[index - 1]) {
+      lines.push("...");
+    }
+  });
+  return lines;
+}
+
+export function formatFanoutSummary(summary: FanoutSummary, durationMs: number): string {
+  const lines = [
+    `Ran on ${summary.total} session(s) in ${(durationMs / 1000).toFixed(1)}s: ` +
+    `${summary.ok} ok, ${summary.failed} failed, ${summary.errors} error(s)`,
+  ];
+
+  const describe = (group: FanoutGroup) =>
+    `${group.sessionIds.join(", ")}${group.exitCode !== null ? ` (exit ${group.exitCode})` : ""}`;
+
+  if (summary.outliers.length === 0 && summary.majority) {
+    lines.push(`All sessions returned the same result: ${describe(summary.majority)}`);
+    return lines.join("\n");
+  }
+
+  if (!summary.majority) {
+    lines.push("No majority result; every distinct result is listed below.");
+    return lines.join("\n");
+  }
+
+  lines.push(`Majority (${summary.majority.sessionIds.length}): ${describe(summary.majority)}`);
+  lines.push("Differs from the majority:");
+  for (const group of summary.outliers) {
+    const diff = diffLines(summary.majority.output, group.output);
+    lines.push(`  ${describe(group)}`);
+    lines.push(...(diff.length > 0 ? diff : ["(same output, different exit code)"]).map((line) => `    ${line}`));
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,324 @@
+/**
+ * Copyright (c) 2025 tranhuucanh39@gmail.com
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { applyPatch, formatPatchPreview, parsePatch } from "./patch.js";
+import { parsePrintedValue, posixCommand, printValueCommand, quotePath, shellQuote } from "./quoting.js";
+import { assertNoRedactionMarkers } from "./redact.js";
+import { executeCommand, runCommand, TerminalSession } from "./session.js";
+import { FILE_TRANSFER_TIMEOUT, PART_SUFFIX, receiveFile, sendFile } from "./transfer.js";
+
+export interface ReadFileOptions {
+  startLine?: number;
+  endLine?: number;
+  maxBytes?: number;
+  timeout?: number;
+}
+
+export interface WriteFileOptions {
+  createDirs?: boolean;
+  mode?: string;
+  backup?: boolean;
+  expectedSha256?: string;
+  allowRedacted?: boolean;
+  timeout?: number;
+}
+
+export interface PatchFileOptions {
+  dryRun?: boolean;
+  backup?: boolean;
+  allowRedacted?: boolean;
+  timeout?: number;
+}
+
+interface RemoteTarget {
+  path: string;
+  kind: "file" | "dir" | "other" | "none";
+  size: number;
+  lines: number;
+  hasDirectory: boolean;
+}
+
+export const DEFAULT_READ_BYTES = 256 * 1024;
+export const MAX_READ_BYTES = 4 * 1024 * 1024;
+export const MAX_PATCH_FILE_SIZE = 16 * 1024 * 1024;
+export const BACKUP_SUFFIX = ".orig";
+
+const CONFLICT_EXIT_CODE = 3;
+
+function randomSuffix(): string {
+  return crypto.randomBytes(6).toString("hex");
+}
+
+function localTempPath(): string {
+  return path.join(os.tmpdir(), `shellkeeper-edit-${process.pid}-${randomSuffix()}`);
+}
+
+function removeLocal(localPath: string): void {
+  fs.rmSync(localPath, { force: true });
+  fs.rmSync(localPath + PART_SUFFIX, { force: true });
+}
+
+function decodeText(data: Buffer, remotePath: string): string {
+  const text = data.toString("utf8");
+  if (data.includes(0) || !Buffer.from(text, "utf8").equals(data)) {
+    throw new Error(`${remotePath} is not a UTF-8 text file; use terminal_download_file / terminal_upload_file instead`);
+  }
+  return text;
+}
+
+async function inspectTarget(session: TerminalSession, remotePath: string, createDirs: boolean = false): Promise<RemoteTarget> {
+  const output = await executeCommand(
+    session,
+    posixCommand(
+      [
+        `p=${quotePath(remotePath)}`,
+        `case "$p" in /*) ;; *) p="$PWD/$p" ;; esac`,
+        `if [ -L "$p" ]; then r=$(readlink -f "$p" 2>/dev/null) && [ -n "$r" ] && p="$r"; fi`,
+        printValueCommand("path", `"$p"`),
+        `if [ -d "$p" ]; then echo "kind=dir"`,
+        `elif [ -f "$p" ]; then echo "kind=file"; echo "size=$(wc -c < "$p")"; echo "lines=$(awk 'END { print NR }' "$p")"`,
+        `elif [ -e "$p" ]; then echo "kind=other"`,
+        `else echo "kind=none"; fi`,
+        createDirs ? `mkdir -p "$(dirname "$p")"` : `if [ ! -d "$(dirname "$p")" ]; then echo "nodir=1"; fi`,
+      ].join("; "),
+      session.shellFamily
+    ),
+    10000,
+    { label: `(inspect ${remotePath})` }
+  );
+
+  const resolved = parsePrintedValue(output, "path");
+  if (resolved === null) {
+    throw new Error(`Could not inspect remote path ${remotePath}: ${output || "(no output)"}`);
+  }
+
+  return {
+    path: resolved,
+    kind: (output.match(/^kind=(\w+)/m)?.[1] || "none") as RemoteTarget["kind"],
+    size: parseInt(output.match(/^size=\s*(\d+)/m)?.[1] || "0", 10),
+    lines: parseInt(output.match(/^lines=\s*(\d+)/m)?.[1] || "0", 10),
+    hasDirectory: !/^nodir=1/m.test(output),
+  };
+}
+
+function requireFile(target: RemoteTarget, remotePath: string): void {
+  if (target.kind === "none") {
+    throw new Error(`Remote file not found: ${remotePath}`);
+  }
+  if (target.kind !== "file") {
+    throw new Error(`${remotePath} is a ${target.kind === "dir" ? "directory" : "special file"}, not a regular file`);
+  }
+}
+
+async function fetchRemote(
+  session: TerminalSession,
+  remotePath: string,
+  timeout: number
+): Promise<{ data: Buffer; sha256: string }> {
+  const localPath = localTempPath();
+  try {
+    const result = await receiveFile(session, remotePath, localPath, { timeout, resume: false });
+    return { data: fs.readFileSync(localPath), sha256: result.sha256 };
+  } finally {
+    removeLocal(localPath);
+  }
+}
+
+export async function readRemoteFile(
+  session: TerminalSession,
+  remotePath: string,
+  options: ReadFileOptions = {}
+): Promise<string> {
+  const { startLine = 1, endLine, timeout = FILE_TRANSFER_TIMEOUT } = options;
+  const maxBytes = Math.min(options.maxBytes || DEFAULT_READ_BYTES, MAX_READ_BYTES);
+
+  if (startLine < 1 || (endLine !== undefined && endLine < startLine)) {
+    throw new Error(`Invalid line range: start_line ${startLine}, end_line ${endLine}`);
+  }
+
+  const target = await inspectTarget(session, remotePath);
+  requireFile(target, remotePath);
+
+  const ranged = startLine > 1 || endLine !== undefined;
+  if (ranged && startLine > target.lines) {
+    throw new Error(`${target.path} has only ${target.lines} lines`);
+  }
+  if (!ranged && target.size > maxBytes) {
+    throw new Error(
+      `${target.path} is ${target.size} bytes, over the ${maxBytes} byte limit. ` +
+      `Read a line range with start_line/end_line (the file has ${target.lines} lines), raise max_bytes, ` +
+      `or use terminal_download_file`
+    );
+  }
+
+  const lastLine = Math.min(endLine ?? target.lines, target.lines);
+  let source = target.path;
+  if (ranged) {
+    source = `/tmp/shellkeeper-read-${randomSuffix()}`;
+    const extracted = await executeCommand(
+      session,
+      posixCommand(
+        `t=${shellQuote(source)}; sed -n '${startLine},${lastLine}p' ${shellQuote(target.path)} > "$t" && echo "size=$(wc -c < "$t")"`,
+        session.shellFamily
+      ),
+      30000,
+      { label: `(extract lines ${startLine}-${lastLine} of ${remotePath})` }
+    );
+    const size = parseInt(extracted.match(/size=\s*(\d+)/)?.[1] || "0", 10);
+    if (size > maxBytes) {
+      await executeCommand(session, posixCommand(`rm -f ${shellQuote(source)}`, session.shellFamily), 10000);
+      throw new Error(
+        `Lines ${startLine}-${lastLine} of ${target.path} are ${size} bytes, over the ${maxBytes} byte limit. ` +
+        `Read a smaller range or raise max_bytes`
+      );
+    }
+  }
+
+  let data: Buffer;
+  try {
+    data = (await fetchRemote(session, source, timeout)).data;
+  } finally {
+    if (ranged) {
+      await executeCommand(session, posixCommand(`rm -f ${shellQuote(source)}`, session.shellFamily), 10000).catch((error) => {
+        console.error(`[ShellKeeper] Could not remove ${source}: ${error.message}`);
+      });
+    }
+  }
+
+  const text = decodeText(data, target.path);
+  const range = ranged ? `lines ${startLine}-${lastLine} of ${target.lines}` : `${target.lines} lines`;
+  return `${target.path} (${range}, ${data.length} bytes)\n\n${text}`;
+}
+
+async function replaceRemoteFile(
+  session: TerminalSession,
+  target: RemoteTarget,
+  content: string,
+  options: WriteFileOptions
+): Promise<string> {
+  const { mode, backup = false, expectedSha256, timeout = FILE_TRANSFER_TIMEOUT } = options;
+
+  const tempPath = `${path.posix.dirname(target.path)}/.${path.posix.basename(target.path)}.skwrite-${randomSuffix()}`;
+  const localPath = localTempPath();
+  let tempRemote: string;
+  try {
+    fs.writeFileSync(localPath, content);
+    tempRemote = (await sendFile(session, localPath, tempPath, { timeout, resume: false, overwrite: true })).remotePath;
+  } finally {
+    removeLocal(localPath);
+  }
+
+  const result = await runCommand(
+    session,
+    posixCommand(
+      [
+        `f=${shellQuote(target.path)}`,
+        `t=${shellQuote(tempRemote)}`,
+        ...(expectedSha256
+          ? [
+              `if [ ! -f "$f" ]; then rm -f "$t"; exit ${CONFLICT_EXIT_CODE}; fi`,
+              `h=$( (sha256sum || shasum -a 256 || openssl dgst -sha256) < "$f" 2>/dev/null)`,
+              `case "$h" in ""|*${expectedSha256}*) ;; *) rm -f "$t"; exit ${CONFLICT_EXIT_CODE} ;; esac`,
+            ]
+          : []),
+        `if [ -f "$f" ]; then m=$(stat -c %a "$f" 2>/dev/null || stat -f %Lp "$f" 2>/dev/null) && chmod "$m" "$t"; fi`,
+        ...(backup ? [`if [ -f "$f" ]; then cp -p "$f" "$f${BACKUP_SUFFIX}" || { rm -f "$t"; exit 1; }; fi`] : []),
+        ...(mode ? [`chmod ${mode} "$t" || { rm -f "$t"; exit 1; }`] : []),
+        `mv -f "$t" "$f" || { rm -f "$t"; exit 1; }`,
+        `ls -l "$f"`,
+      ].join("; "),
+      session.shellFamily
+    ),
+    30000,
+    { label: `(replace ${target.path})` }
+  );
+
+  if (result.exitCode === CONFLICT_EXIT_CODE) {
+    throw new Error(`${target.path} changed on the remote host after it was read; nothing was written. Re-read it and try again.`);
+  }
+  if (result.exitCode !== 0) {
+    throw new Error(`Could not replace ${target.path} (exit code ${result.exitCode}): ${result.stdout || "(no output)"}`);
+  }
+
+  return result.stdout.trim();
+}
+
+export async function writeRemoteFile(
+  session: TerminalSession,
+  remotePath: string,
+  content: string,
+  options: WriteFileOptions = {}
+): Promise<string> {
+  if (options.mode && !/^[0-7]{3,4}$/.test(options.mode)) {
+    throw new Error(`Invalid mode ${options.mode}; use an octal mode such as 644 or 0755`);
+  }
+  if (!options.allowRedacted) {
+    assertNoRedactionMarkers(content, "Content");
+  }
+
+  const target = await inspectTarget(session, remotePath, options.createDirs);
+  if (target.kind !== "none") {
+    requireFile(target, remotePath);
+  }
+  if (!target.hasDirectory) {
+    throw new Error(`Directory ${path.posix.dirname(target.path)} does not exist; pass create_dirs: true to create it`);
+  }
+
+  const listing = await replaceRemoteFile(session, target, content, options);
+  const bytes = Buffer.byteLength(content);
+  return (
+    `${target.kind === "none" ? "Created" : "Replaced"} ${target.path} (${bytes} bytes, written to a temp file and moved into place)\n` +
+    (options.backup && target.kind === "file" ? `Backup: ${target.path}${BACKUP_SUFFIX}\n` : "") +
+    listing
+  );
+}
+
+export async function patchRemoteFile(
+  session: TerminalSession,
+  remotePath: string,
+  patch: string,
+  options: PatchFileOptions = {}
+): Promise<string> {
+  const { dryRun = false, backup = true, timeout = FILE_TRANSFER_TIMEOUT } = options;
+  if (!options.allowRedacted) {
+    assertNoRedactionMarkers(patch, "Patch");
+  }
+  const hunks = parsePatch(patch);
+
+  const target = await inspectTarget(session, remotePath);
+  requireFile(target, remotePath);
+  if (target.size > MAX_PATCH_FILE_SIZE) {
+    throw new Error(`${target.path} is ${target.size} bytes, over the ${MAX_PATCH_FILE_SIZE} byte limit for patching`);
+  }
+
+  const original = await fetchRemote(session, target.path, timeout);
+  const result = applyPatch(decodeText(original.data, target.path), hunks);
+  const preview = formatPatchPreview(target.path, result);
+  const summary =
+    `${result.applied.length} hunk${result.applied.length === 1 ? "" : "s"}, ` +
+    `+${result.added} -${result.removed} line${result.added + result.removed === 1 ? "" : "s"}`;
+
+  if (dryRun) {
+    return `Dry run: patch applies cleanly to ${target.path} (${summary}); nothing was written\n\n${preview}`;
+  }
+
+  const listing = await replaceRemoteFile(session, target, result.content, {
+    backup,
+    expectedSha256: original.sha256,
+    timeout,
+  });
+
+  return (
+    `Patched ${target.path} (${summary})\n` +
+    (backup ? `Backup: ${target.path}${BACKUP_SUFFIX}\n` : "") +
+    `${listing}\n\n${preview}`
+  );
+}
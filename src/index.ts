@@ -10,335 +10,188 @@
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
+  CallToolRequest,
   CallToolRequestSchema,
   ListToolsRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
-import * as pty from "node-pty";
-import * as os from "os";
-import * as fs from "fs";
-import * as path from "path";
-
-interface TerminalSession {
-  id: string;
-  ptyProcess: pty.IPty;
-  outputBuffer: string;
-  isReady: boolean;
-  promptPattern: RegExp;
-  lastCommand: string;
-  createdAt: Date;
-}
-
-const MAX_FILE_SIZE = 10 * 1024 * 1024;
-const FILE_TRANSFER_TIMEOUT = 300000;
-
-const sessions = new Map<string, TerminalSession>();
-
-const server = new Server(
-  {
-    name: "mcp-shellkeeper",
-    version: "1.0.0",
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
-  }
-);
-
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
-function cleanOutput(output: string): string {
-  return output
-    .replace(/\x1b\[[0-9;]*[a-zA-Z]/g, "")
-    .replace(/\x1b\][0-9;]*\x07/g, "")
-    .replace(/\x1b\][0-9;]*;[^\x07]*\x07/g, "")
-    .replace(/\x1b[><=]/g, "")
-    .replace(/\[\?[0-9]+[hl]/g, "")
-    .replace(/\r\n/g, "\n")
-    .replace(/\r/g, "\n")
-    .replace(/\[READY\]\$ /g, "")
-    .replace(/^%\s*$/gm, "")
-    .replace(/^❯\s*$/gm, "")
-    .replace(/^~\s*$/gm, "")
-    .replace(/^\$\s*$/gm, "")
-    .replace(/^>\s*$/gm, "")
-    .replace(/^#\s*$/gm, "")
-    .replace(/^[❯$>#]\s+/gm, "")
-    .replace(/\n{3,}/g, "\n\n")
-    .trim();
-}
-
-function createSession(sessionId: string, shell?: string): TerminalSession {
-  const shellPath = shell || (os.platform() === "win32" ? "powershell.exe" : process.env.SHELL || "/bin/bash");
-
-  const ptyProcess = pty.spawn(shellPath, [], {
-    name: "xterm-256color",
-    cols: 160,
-    rows: 40,
-    cwd: process.env.HOME || process.cwd(),
-    env: {
-      ...process.env,
-      TERM: "xterm-256color",
-      PS1: "[READY]\\$ ",
-      SSH_ASKPASS: "",
-      GIT_TERMINAL_PROMPT: "0",
-    },
-  });
-
-  const session: TerminalSession = {
-    id: sessionId,
-    ptyProcess,
-    outputBuffer: "",
-    isReady: true,
-    promptPattern: /\[READY\]\$ $/,
-    lastCommand: "",
-    createdAt: new Date(),
+import { downloadPath, PathTransferResult, uploadPath } from "./archive.js";
+import { audit, auditLocation, getAuditPath, hashOutput, queryAudit } from "./audit.js";
+import { connectDaemon, isDetachedMode, runDaemon } from "./daemon.js";
+import { configSearchPaths, getConfig, getConfigPath, getProfileGroup, loadConfig } from "./config.js";
+import { currentFrame, formatHops, formatLocation, sshHops } from "./context.js";
+import {
+  BACKUP_SUFFIX,
+  DEFAULT_READ_BYTES,
+  MAX_READ_BYTES,
+  patchRemoteFile,
+  readRemoteFile,
+  writeRemoteFile,
+} from "./files.js";
+import {
+  DEFAULT_FANOUT_CONCURRENCY,
+  FanoutResult,
+  formatFanoutSummary,
+  MAX_FANOUT_CONCURRENCY,
+  MAX_FANOUT_SESSIONS,
+  runWithConcurrency,
+  summarizeFanout,
+} from "./fanout.js";
+import { expectOutput, sendInput, submittedLines } from "./interactive.js";
+import { noopCommand } from "./integration.js";
+import { DEFAULT_INTERRUPT_GRACE, describeInterrupt, interruptSession } from "./interrupt.js";
+import {
+  findJob,
+  formatJob,
+  MAX_JOB_OUTPUT_BYTES,
+  readJobOutput,
+  refreshJobStatus,
+  startJob,
+  waitForJob,
+} from "./jobs.js";
+import { DEFAULT_LIST_LIMIT, listRemoteDir, MAX_LIST_DEPTH, MAX_LIST_LIMIT, statRemote } from "./listing.js";
+import { CONFIRMATION_TTL, enforcePolicy, evaluateCommand, hasConfirmation, requestConfirmation } from "./policy.js";
+import { formatProfile, openProfileSession } from "./profiles.js";
+import { clearQueue, queueState, runQueued } from "./queue.js";
+import { acknowledgeDisconnect, reconnectSession } from "./reconnect.js";
+import { redactSecrets, redactToolResult } from "./redact.js";
+import {
+  DEFAULT_MAX_OUTPUT_BYTES,
+  findOutput,
+  readOutput,
+  storeOutput,
+  truncateHeadTail,
+} from "./output.js";
+import { captureScreen } from "./screen.js";
+import { findCommand, formatHistory, readScrollback } from "./scrollback.js";
+import {
+  CommandResult,
+  CommandTimeoutError,
+  createSession,
+  lostSessions,
+  MAX_OUTPUT_LENGTH,
+  refreshRestoredSession,
+  restoreDetachedSessions,
+  restoreTmuxSessions,
+  runCommand,
+  sessions,
+  TerminalSession,
+} from "./session.js";
+import {
+  connectSsh,
+  formatSshTarget,
+  SSH_CONNECT_TIMEOUT,
+  SshConnectionError,
+  SshTarget,
+} from "./ssh.js";
+import { tmuxAttachCommand } from "./tmux.js";
+import { FILE_TRANSFER_TIMEOUT, MAX_FILE_TRANSFER_TIMEOUT } from "./transfer.js";
+import { cleanOutput, sleep } from "./utils.js";
+
+function formatCommandResult(result: CommandResult) {
+  return {
+    command: result.command,
+    exit_code: result.exitCode,
+    duration_ms: result.durationMs,
+    cwd: result.cwd,
+    stdout: result.stdout,
+    stderr: result.stderr,
+    truncated: result.truncated,
+    output_id: result.outputId,
   };
+}
 
-  ptyProcess.onData((data) => {
-    session.outputBuffer += data;
-  });
+type TimeoutAction = "interrupt" | "leave" | "kill_session";
 
-  ptyProcess.onExit(({ exitCode, signal }) => {
-    console.error(`[ShellKeeper] Session ${sessionId} exited with code ${exitCode}, signal ${signal}`);
-    sessions.delete(sessionId);
-  });
+const MAX_BATCH_STEPS = 100;
+const DEFAULT_BATCH_OUTPUT_BYTES = 16 * 1024;
 
-  sessions.set(sessionId, session);
-  return session;
+interface ExecuteOptions {
+  separateStderr?: boolean;
+  allowDegraded?: boolean;
+  onTimeout?: TimeoutAction;
+  confirmToken?: string;
 }
 
-async function executeCommand(
+async function executeAudited(
   session: TerminalSession,
   command: string,
-  timeout: number = 30000
-): Promise<string> {
-  session.lastCommand = command;
-  session.isReady = false;
-
-  session.outputBuffer = "";
-
-  await sleep(200);
-
-  const timestamp = Date.now();
-  const startMarker = `===START${timestamp}===`;
-  const endMarker = `===END${timestamp}===`;
-  const exitMarker = `===EXIT${timestamp}===`;
-
-  session.ptyProcess.write(`echo '${startMarker}'\n`);
-  await sleep(100);
-  session.ptyProcess.write(`${command}\n`);
-  await sleep(100);
-  session.ptyProcess.write(`echo '${exitMarker}'$?\n`);
-  await sleep(100);
-  session.ptyProcess.write(`echo '${endMarker}'\n`);
-
-  const startTime = Date.now();
-  let foundEnd = false;
-
-  while (Date.now() - startTime < timeout) {
-    const output = session.outputBuffer;
-
-    if (output.includes(endMarker)) {
-      await sleep(300);
-      foundEnd = true;
-      break;
-    }
-
-    await sleep(100);
-  }
-
-  if (!foundEnd) {
-    session.isReady = true;
-    throw new Error(`Command timeout after ${timeout}ms. Command might still be running or waiting for input.`);
-  }
-
-  session.isReady = true;
-
-  const output = session.outputBuffer;
-
-  const startIdx = output.lastIndexOf(startMarker);
-  const endIdx = output.lastIndexOf(endMarker);
-
-  if (startIdx === -1 || endIdx === -1 || startIdx >= endIdx) {
-    return cleanOutput(output);
-  }
-
-  let exitCode = 0;
-  const exitMarkerPattern = new RegExp(`${exitMarker}(\\d+)`);
-  const exitMatch = output.match(exitMarkerPattern);
-  if (exitMatch) {
-    exitCode = parseInt(exitMatch[1], 10);
+  timeout: number,
+  options: ExecuteOptions = {}
+): Promise<CommandResult> {
+  try {
+    enforcePolicy(session, command, options.confirmToken);
+  } catch (error: any) {
+    audit("command", session, { command, status: "denied", error: error.decision?.reason ?? error.message });
+    throw error;
   }
 
-  let result = output.substring(startIdx + startMarker.length, endIdx);
-
-  const lines = result.split("\n");
-  const seenLines = new Set<string>();
-  let commandEchoSkipped = false;
-
-  const filteredLines = lines.filter((line) => {
-    const trimmed = line.trim();
-
-    if (trimmed === "") return false;
-
-    if (trimmed.includes(startMarker)) return false;
-    if (trimmed.includes(endMarker)) return false;
-    if (trimmed.includes(exitMarker)) return false;
-
-    if (trimmed.match(/^\([^)]+\)\[[^\]]+@[^\]]+\s+[^\]]+\]\$/)) {
-      return false;
+  console.error(`[ShellKeeper] Executing in session ${session.id}: ${redactSecrets(command)}`);
+  const location = auditLocation(session);
+  const startedAt = Date.now();
+  let result: CommandResult;
+  try {
+    result = await runCommand(session, command, timeout, {
+      separateStderr: options.separateStderr,
+      allowDegraded: options.allowDegraded,
+    });
+  } catch (error: any) {
+    audit("command", session, { ...location, command, status: "error", duration_ms: Date.now() - startedAt, error: error.message });
+    if (!(error instanceof CommandTimeoutError) || options.onTimeout === "leave") {
+      throw error;
     }
 
-    if (!commandEchoSkipped) {
-      const cmdFirstWord = command.split(' ')[0];
-      if (cmdFirstWord && trimmed.includes(cmdFirstWord)) {
-        commandEchoSkipped = true;
-        return false;
-      }
-      if (trimmed.startsWith("echo ")) {
-        return false;
-      }
+    let outcome: string;
+    if (options.onTimeout === "kill_session") {
+      audit("session_close", session);
+      sessions.delete(session.id);
+      session.ptyProcess.kill();
+      clearQueue(session.id, "was closed");
+      outcome = `Closed session ${session.id}.`;
+    } else {
+      outcome = describeInterrupt(await interruptSession(session));
     }
-
-    if (seenLines.has(trimmed)) return false;
-    seenLines.add(trimmed);
-
-    return true;
-  });
-
-  result = filteredLines.join("\n");
-  const cleanedResult = cleanOutput(result);
-
-  if (exitCode !== 0) {
     throw new Error(
-      `Command exited with code ${exitCode}\n` +
+      `Command timed out after ${timeout}ms. ${outcome}\n` +
       `Command: ${command}\n` +
-      `Output: ${cleanedResult || "(no output)"}`
-    );
-  }
-
-  return cleanedResult;
-}
-
-async function uploadFile(
-  session: TerminalSession,
-  localPath: string,
-  remotePath: string,
-  timeout: number = FILE_TRANSFER_TIMEOUT
-): Promise<string> {
-  if (!fs.existsSync(localPath)) {
-    throw new Error(`Local file not found: ${localPath}`);
-  }
-
-  const stats = fs.statSync(localPath);
-  if (stats.size > MAX_FILE_SIZE) {
-    throw new Error(
-      `File size (${(stats.size / 1024 / 1024).toFixed(2)}MB) exceeds maximum allowed size (${MAX_FILE_SIZE / 1024 / 1024}MB)`
+      `Output so far: ${error.output || "(no output)"}`
     );
   }
 
-  const localFilename = path.basename(localPath);
-  let finalRemotePath = remotePath;
-
-  try {
-    const testDirCmd = `test -d ${remotePath} && echo "DIR" || echo "FILE"`;
-    const result = await executeCommand(session, testDirCmd, 5000);
-
-    if (result.trim() === "DIR") {
-      finalRemotePath = remotePath.endsWith('/') ? `${remotePath}${localFilename}` : `${remotePath}/${localFilename}`;
-    }
-  } catch (e) {
-  }
-
-  try {
-    const testFileCmd = `test -f ${finalRemotePath} && echo "EXISTS" || echo "OK"`;
-    const fileCheck = await executeCommand(session, testFileCmd, 5000);
-
-    if (fileCheck.trim() === "EXISTS") {
-      const randomSuffix = Math.random().toString(36).substring(2, 8);
-      const ext = path.extname(localFilename);
-      const nameWithoutExt = path.basename(localFilename, ext);
-      const dir = path.dirname(finalRemotePath);
-      finalRemotePath = `${dir}/${nameWithoutExt}_${randomSuffix}${ext}`;
-    }
-  } catch (e) {
-  }
-
-  const fileContent = fs.readFileSync(localPath);
-  const base64Content = fileContent.toString("base64");
-
-  const chunkSize = 50000;
-  const chunks: string[] = [];
-  for (let i = 0; i < base64Content.length; i += chunkSize) {
-    chunks.push(base64Content.substring(i, i + chunkSize));
-  }
-
-  const tempBase64File = `/tmp/mcp_upload_${Date.now()}.b64`;
-
-  try {
-    await executeCommand(session, `rm -f ${tempBase64File}`, 10000);
-  } catch (e) {
-  }
-
-  for (let i = 0; i < chunks.length; i++) {
-    const chunk = chunks[i];
-    const cmd = `printf '%s' '${chunk}' >> ${tempBase64File}`;
-    await executeCommand(session, cmd, 30000);
-  }
-
-  const decodeCmd = `(base64 -D -i ${tempBase64File} -o ${finalRemotePath} 2>/dev/null || base64 -d ${tempBase64File} > ${finalRemotePath}) && rm -f ${tempBase64File}`;
-  await executeCommand(session, decodeCmd, timeout);
-
-  const verifyCmd = `ls -lh ${finalRemotePath}`;
-  const result = await executeCommand(session, verifyCmd, 10000);
+  audit("command", session, {
+    ...location,
+    command,
+    exit_code: result.exitCode,
+    duration_ms: result.durationMs,
+    bytes: Buffer.byteLength(result.stdout) + Buffer.byteLength(result.stderr || ""),
+    output_sha256: hashOutput(result.stdout + (result.stderr || "")),
+  });
 
-  return `File uploaded successfully: ${localPath} -> ${finalRemotePath}\n${result}`;
+  storeOutput(session, result);
+  return result;
 }
 
-async function downloadFile(
-  session: TerminalSession,
-  remotePath: string,
-  localPath: string,
-  timeout: number = FILE_TRANSFER_TIMEOUT
-): Promise<string> {
-  const checkCmd = `test -f ${remotePath} && stat -f%z ${remotePath} 2>/dev/null || stat -c%s ${remotePath} 2>/dev/null`;
-  let fileSizeStr: string;
-
-  try {
-    fileSizeStr = await executeCommand(session, checkCmd, 10000);
-  } catch (e) {
-    throw new Error(`Remote file not found or cannot access: ${remotePath}`);
-  }
-
-  const fileSize = parseInt(fileSizeStr.trim(), 10);
-  if (isNaN(fileSize)) {
-    throw new Error(`Cannot determine size of remote file: ${remotePath}`);
-  }
-
-  if (fileSize > MAX_FILE_SIZE) {
-    throw new Error(
-      `File size (${(fileSize / 1024 / 1024).toFixed(2)}MB) exceeds maximum allowed size (${MAX_FILE_SIZE / 1024 / 1024}MB)`
-    );
-  }
-
-  const encodeCmd = `base64 -i ${remotePath} 2>/dev/null || base64 ${remotePath}`;
-  const base64Content = await executeCommand(session, encodeCmd, timeout);
-  const cleanedBase64 = base64Content.replace(/\s/g, "");
-  const buffer = Buffer.from(cleanedBase64, "base64");
+function truncateResult(result: CommandResult, maxOutputBytes: number): CommandResult {
+  const stdout = truncateHeadTail(result.stdout, maxOutputBytes, result.outputId);
+  const stderr = result.stderr === null ? null : truncateHeadTail(result.stderr, maxOutputBytes, result.outputId);
+  return {
+    ...result,
+    stdout: stdout.text,
+    stderr: stderr ? stderr.text : null,
+    truncated: result.truncated || stdout.truncated || !!stderr?.truncated,
+  };
+}
 
-  const localDir = path.dirname(localPath);
-  if (!fs.existsSync(localDir)) {
-    fs.mkdirSync(localDir, { recursive: true });
+const server = new Server(
+  {
+    name: "mcp-shellkeeper",
+    version: "1.0.0",
+  },
+  {
+    capabilities: {
+      tools: {},
+    },
   }
-
-  fs.writeFileSync(localPath, buffer);
-  const localStats = fs.statSync(localPath);
-
-  return `File downloaded successfully: ${remotePath} -> ${localPath}\nSize: ${(localStats.size / 1024).toFixed(2)}KB`;
-}
+);
 
 server.setRequestHandler(ListToolsRequestSchema, async () => {
   return {
@@ -370,6 +223,213 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               description: "Command timeout in milliseconds (default: 30000, max: 120000)",
               default: 30000,
             },
+            structured: {
+              type: "boolean",
+              description:
+                "Return a JSON result with exit_code, duration_ms, cwd, stdout, stderr, truncated and output_id " +
+                "instead of plain text (default: false)",
+              default: false,
+            },
+            separate_stderr: {
+              type: "boolean",
+              description:
+                "Capture stderr separately from stdout by redirecting it to a temporary file (default: false). " +
+                "Do not use for interactive commands such as ssh.",
+              default: false,
+            },
+            fail_on_nonzero: {
+              type: "boolean",
+              description:
+                "Return an error when the command exits with a non-zero code " +
+                "(default: true, or false when structured is true)",
+            },
+            max_output_bytes: {
+              type: "number",
+              description:
+                "Maximum bytes of stdout (and of stderr) to return. Longer output keeps its first and last lines " +
+                "and the full output can be paged with terminal_read_output (default: 65536)",
+              default: 65536,
+            },
+            priority: {
+              type: "number",
+              description: "Queue priority when the session is busy; higher runs first, equal priorities run in arrival order (default: 0)",
+              default: 0,
+            },
+            queue_timeout: {
+              type: "number",
+              description: "How long to wait for a busy session in milliseconds before giving up (default: 300000, max: 3600000)",
+              default: 300000,
+            },
+            on_timeout: {
+              type: "string",
+              enum: ["interrupt", "leave", "kill_session"],
+              description:
+                "What to do when the command times out: interrupt stops it (Ctrl-C, then Ctrl-\\, then killing " +
+                "the process group) so the session is clean for the next command; leave keeps it running, e.g. " +
+                "for a prompt you answer with terminal_send_input; kill_session closes the session (default: interrupt)",
+              default: "interrupt",
+            },
+            confirm_token: {
+              type: "string",
+              description:
+                "Confirmation token returned by a previous call that was held for confirmation by the command policy. " +
+                "Only pass it after the user has approved the command.",
+            },
+          },
+          required: ["command"],
+        },
+      },
+      {
+        name: "terminal_execute_batch",
+        description:
+          "Run an ordered list of commands in one session and get a JSON report per step: status, exit code, " +
+          "duration, cwd and output. Stops at the first failing step unless continue_on_error is set; " +
+          "steps after the stop are reported as skipped. Steps share the session, so cd and exports carry over.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            steps: {
+              type: "array",
+              description: `Commands to run in order (max ${MAX_BATCH_STEPS}), as strings or objects with per-step settings`,
+              items: {
+                anyOf: [
+                  { type: "string" },
+                  {
+                    type: "object",
+                    properties: {
+                      command: { type: "string", description: "The command to run" },
+                      timeout: { type: "number", description: "Timeout for this step in milliseconds (max: 120000)" },
+                      continue_on_error: { type: "boolean", description: "Keep going if this step fails" },
+                      confirm_token: {
+                        type: "string",
+                        description: "Confirmation token for this step, when the command policy held it for confirmation",
+                      },
+                    },
+                    required: ["command"],
+                  },
+                ],
+              },
+            },
+            session_id: {
+              type: "string",
+              description: "Session identifier (default: 'default')",
+              default: "default",
+            },
+            timeout: {
+              type: "number",
+              description: "Default timeout per step in milliseconds (default: 30000, max: 120000)",
+              default: 30000,
+            },
+            continue_on_error: {
+              type: "boolean",
+              description:
+                "Run the remaining steps after a step fails (default: false). " +
+                "Steps denied or held by the command policy always stop the batch.",
+              default: false,
+            },
+            separate_stderr: {
+              type: "boolean",
+              description: "Capture stderr separately from stdout for every step (default: false)",
+              default: false,
+            },
+            max_output_bytes: {
+              type: "number",
+              description:
+                "Maximum bytes of stdout (and of stderr) to return per step; full output stays available " +
+                `through terminal_read_output (default: ${DEFAULT_BATCH_OUTPUT_BYTES})`,
+              default: DEFAULT_BATCH_OUTPUT_BYTES,
+            },
+            on_timeout: {
+              type: "string",
+              enum: ["interrupt", "leave", "kill_session"],
+              description: "What to do when a step times out, as for terminal_execute (default: interrupt)",
+              default: "interrupt",
+            },
+            priority: {
+              type: "number",
+              description: "Queue priority when the session is busy; higher runs first (default: 0)",
+              default: 0,
+            },
+            queue_timeout: {
+              type: "number",
+              description: "How long to wait for a busy session in milliseconds before giving up (default: 300000, max: 3600000)",
+              default: 300000,
+            },
+          },
+          required: ["steps"],
+        },
+      },
+      {
+        name: "terminal_execute_many",
+        description:
+          "Run one command concurrently on several sessions, e.g. the same health check on every server, and get " +
+          "the results per session plus a summary that groups identical results and shows a line diff for every " +
+          "session whose output or exit code differs from the majority. Targets are existing session ids and/or a " +
+          "profile group (profiles tagged with \"groups\" in the config; sessions are opened as needed).",
+        inputSchema: {
+          type: "object",
+          properties: {
+            command: {
+              type: "string",
+              description: "The command to run in every session",
+            },
+            session_ids: {
+              type: "array",
+              items: { type: "string" },
+              description: "Existing sessions to run the command in",
+            },
+            profile_group: {
+              type: "string",
+              description:
+                "Run in every profile tagged with this group; reuses a session already opened from the profile " +
+                "or opens one named after it",
+            },
+            timeout: {
+              type: "number",
+              description: "Command timeout per session in milliseconds (default: 30000, max: 120000)",
+              default: 30000,
+            },
+            concurrency: {
+              type: "number",
+              description: `How many sessions run at the same time (default: ${DEFAULT_FANOUT_CONCURRENCY}, max: ${MAX_FANOUT_CONCURRENCY})`,
+              default: DEFAULT_FANOUT_CONCURRENCY,
+            },
+            structured: {
+              type: "boolean",
+              description: "Return the summary and per-session results as JSON (default: false)",
+              default: false,
+            },
+            max_output_bytes: {
+              type: "number",
+              description:
+                "Maximum bytes of output to return per session; full output stays available through " +
+                `terminal_read_output (default: ${DEFAULT_BATCH_OUTPUT_BYTES})`,
+              default: DEFAULT_BATCH_OUTPUT_BYTES,
+            },
+            on_timeout: {
+              type: "string",
+              enum: ["interrupt", "leave", "kill_session"],
+              description: "What to do in a session whose command times out, as for terminal_execute (default: interrupt)",
+              default: "interrupt",
+            },
+            priority: {
+              type: "number",
+              description: "Queue priority in sessions that are busy; higher runs first (default: 0)",
+              default: 0,
+            },
+            queue_timeout: {
+              type: "number",
+              description: "How long to wait for a busy session in milliseconds before giving up on it (default: 300000, max: 3600000)",
+              default: 300000,
+            },
+            confirm_tokens: {
+              type: "object",
+              additionalProperties: { type: "string" },
+              description:
+                "Confirmation tokens by session id, from a previous call where the command needed confirmation. " +
+                "The policy is checked in every session before anything runs: if the command is blocked or needs " +
+                "confirmation anywhere, nothing is run and the tokens to confirm it are returned",
+            },
           },
           required: ["command"],
         },
@@ -391,6 +451,23 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: "string",
               description: "Shell to use (optional, defaults to system default: bash/zsh on Unix, powershell on Windows)",
             },
+            profile: {
+              type: "string",
+              description:
+                "Name of a profile from shellkeeper.config.json to prepare the session with " +
+                "(shell, cwd, environment, init commands and SSH target). See terminal_list_profiles.",
+            },
+            policy: {
+              type: "string",
+              description: "Name of a command policy from the config file to enforce in this session (overrides the profile's policy)",
+            },
+            backend: {
+              type: "string",
+              enum: ["pty", "tmux"],
+              description:
+                "Where the shell runs: 'pty' (default) or 'tmux', which opens a window in the tmux session 'shellkeeper' " +
+                "so a human can watch and take over with: tmux attach -t shellkeeper:<session_id>",
+            },
           },
           required: ["session_id"],
         },
@@ -404,308 +481,2228 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
         },
       },
       {
-        name: "terminal_close_session",
-        description: "Close and cleanup a specific terminal session",
+        name: "terminal_session_info",
+        description:
+          "Show where a session currently is as JSON: working directory, user, hostname, OS, shell, " +
+          "and the stack of shells it went through (ssh hops, sudo -i, su). " +
+          "Updated after every command; pass refresh to check right now.",
         inputSchema: {
           type: "object",
           properties: {
             session_id: {
               type: "string",
-              description: "Session ID to close",
+              description: "Session identifier (default: 'default')",
+              default: "default",
+            },
+            refresh: {
+              type: "boolean",
+              description: "Run a no-op command first so the context is current (default: false)",
+              default: false,
             },
           },
-          required: ["session_id"],
         },
       },
       {
-        name: "terminal_get_buffer",
+        name: "terminal_reconnect",
         description:
-          "Get the raw output buffer from a session. " +
-          "Useful for debugging or when you need to see the unprocessed terminal output.",
+          "Recover a session whose SSH connection dropped. A session is marked degraded when an ssh hop " +
+          "disappears without an exit being requested (checked before the next command when ssh reports the " +
+          "connection closed); degraded sessions refuse commands so nothing runs on the wrong host. 'reconnect' " +
+          "replays the ssh command of each lost hop, checked against the command policy and audited like " +
+          "terminal_execute (reopening terminal_ssh_connect and profile sessions first), and returns to the last " +
+          "working directory; 'acknowledge' accepts where the session is now. sudo -i and su shells are reported " +
+          "but not replayed.",
         inputSchema: {
           type: "object",
           properties: {
             session_id: {
               type: "string",
-              description: "Session ID (default: 'default')",
+              description: "Session identifier (default: 'default')",
               default: "default",
             },
-            clean: {
-              type: "boolean",
-              description: "Clean ANSI codes and control characters (default: true)",
-              default: true,
+            action: {
+              type: "string",
+              enum: ["reconnect", "acknowledge"],
+              description: "reconnect replays the SSH chain; acknowledge clears the degraded state (default: reconnect)",
+              default: "reconnect",
+            },
+            timeout: {
+              type: "number",
+              description: `Timeout per hop in milliseconds (default: ${SSH_CONNECT_TIMEOUT}, max: 120000)`,
+              default: SSH_CONNECT_TIMEOUT,
+            },
+            confirm_token: {
+              type: "string",
+              description:
+                "Confirmation token returned by a previous call whose ssh hop was held for confirmation by the " +
+                "command policy. Only pass it after the user has approved the hop.",
             },
           },
         },
       },
       {
-        name: "terminal_upload_file",
+        name: "terminal_interrupt",
         description:
-          "Upload a file from local machine to remote server through the terminal session. " +
-          "Works seamlessly with SSH and nested SSH connections. " +
-          "Maximum file size: 10MB. Timeout: 5 minutes.",
+          "Stop the command running in a session: sends Ctrl-C, then Ctrl-\\, then kills the foreground process " +
+          "group (local sessions only), waiting after each step until the shell is back at a prompt. " +
+          "Use it when a command hangs or was left running after a timeout.",
         inputSchema: {
           type: "object",
           properties: {
-            local_path: {
-              type: "string",
-              description: "Path to the local file to upload",
-            },
-            remote_path: {
-              type: "string",
-              description: "Destination path on the remote server",
-            },
             session_id: {
               type: "string",
-              description: "Session identifier to use for upload (default: 'default')",
+              description: "Session identifier (default: 'default')",
               default: "default",
             },
-            timeout: {
+            escalate: {
+              type: "boolean",
+              description: "Go on to Ctrl-\\ and killing the process group if Ctrl-C is not enough (default: true)",
+              default: true,
+            },
+            grace_ms: {
               type: "number",
-              description: "Upload timeout in milliseconds (default: 300000 = 5 minutes, max: 300000)",
-              default: 300000,
+              description: `How long to wait after each step in milliseconds (default: ${DEFAULT_INTERRUPT_GRACE}, max: 30000)`,
+              default: DEFAULT_INTERRUPT_GRACE,
             },
           },
-          required: ["local_path", "remote_path"],
         },
       },
       {
-        name: "terminal_download_file",
-        description:
-          "Download a file from remote server to local machine through the terminal session. " +
-          "Works seamlessly with SSH and nested SSH connections. " +
-          "Maximum file size: 10MB. Timeout: 5 minutes.",
+        name: "terminal_close_session",
+        description: "Close and cleanup a specific terminal session",
         inputSchema: {
           type: "object",
           properties: {
-            remote_path: {
-              type: "string",
-              description: "Path to the file on remote server",
-            },
-            local_path: {
-              type: "string",
-              description: "Destination path on local machine",
-            },
             session_id: {
               type: "string",
-              description: "Session identifier to use for download (default: 'default')",
-              default: "default",
+              description: "Session ID to close",
             },
-            timeout: {
-              type: "number",
-              description: "Download timeout in milliseconds (default: 300000 = 5 minutes, max: 300000)",
-              default: 300000,
+          },
+          required: ["session_id"],
+        },
+      },
+      {
+        name: "terminal_get_buffer",
+        description:
+          "Get the terminal scrollback of a session. " +
+          "Useful for debugging or when you need to see the unprocessed terminal output. " +
+          "Use history to list past commands, then command_index or since_command to look at their output.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            session_id: {
+              type: "string",
+              description: "Session ID (default: 'default')",
+              default: "default",
+            },
+            clean: {
+              type: "boolean",
+              description: "Clean ANSI codes and control characters (default: true)",
+              default: true,
+            },
+            last_n_lines: {
+              type: "number",
+              description: "Only return the last N lines of the selected scrollback",
+            },
+            command_index: {
+              type: "number",
+              description: "Only return the terminal output of this command from the history; negative values count back (-1 is the last command)",
+            },
+            since_command: {
+              type: "number",
+              description: "Return everything from the start of this command onwards; negative values count back",
+            },
+            history: {
+              type: "boolean",
+              description: "List the session's command history (index, exit code, duration) instead of output (default: false)",
+              default: false,
+            },
+          },
+        },
+      },
+      {
+        name: "terminal_screenshot",
+        description:
+          "Return the current screen of a session as rendered by a virtual terminal, as a text grid. " +
+          "Use this instead of terminal_get_buffer for full-screen programs such as top, htop, less, vim " +
+          "and progress bars, then drive them with terminal_send_input.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            session_id: {
+              type: "string",
+              description: "Session ID (default: 'default')",
+              default: "default",
+            },
+            cursor: {
+              type: "boolean",
+              description: "Include the cursor position (default: true)",
+              default: true,
+            },
+            colors: {
+              type: "boolean",
+              description: "Include a list of colored and styled regions (default: false)",
+              default: false,
+            },
+          },
+        },
+      },
+      {
+        name: "terminal_read_output",
+        description:
+          "Page through or search the full output of a previous terminal_execute call. " +
+          "Use the output_id from a truncated result to read specific line ranges or grep for lines.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            output_id: {
+              type: "string",
+              description: "Output ID returned by terminal_execute",
+            },
+            stream: {
+              type: "string",
+              enum: ["stdout", "stderr"],
+              description: "Which stream to read; stderr is only available with separate_stderr (default: 'stdout')",
+              default: "stdout",
+            },
+            start_line: {
+              type: "number",
+              description: "First line to return, 1-based (default: 1)",
+              default: 1,
+            },
+            end_line: {
+              type: "number",
+              description: "Last line to return (default: start_line + 199, at most 2000 lines per call)",
+            },
+            grep: {
+              type: "string",
+              description: "Only return lines matching this regular expression, searched within start_line..end_line",
+            },
+            flags: {
+              type: "string",
+              description: "Regular expression flags for grep, e.g. 'i' for case-insensitive",
+              default: "",
+            },
+            context: {
+              type: "number",
+              description: "Lines of context to show around each grep match (default: 0, max: 20)",
+              default: 0,
+            },
+          },
+          required: ["output_id"],
+        },
+      },
+      {
+        name: "terminal_upload_file",
+        description:
+          "Upload a file, directory or glob from local machine to remote server through the terminal session. " +
+          "Works seamlessly with SSH and nested SSH connections. " +
+          "Sent in SHA-256 verified chunks that resume after a dropped connection; reports progress when the client asks for it. " +
+          "Directories and globs are packed with tar, keeping permissions and modification times. " +
+          "Maximum file size: 1GB.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            local_path: {
+              type: "string",
+              description: "Path to the local file, directory or glob (e.g. ./config/*.yml) to upload",
+            },
+            remote_path: {
+              type: "string",
+              description:
+                "Destination path on the remote server. Directories and globs are unpacked into this directory, " +
+                "a directory keeping its own name inside it",
+            },
+            session_id: {
+              type: "string",
+              description: "Session identifier to use for upload (default: 'default')",
+              default: "default",
+            },
+            timeout: {
+              type: "number",
+              description:
+                "Upload timeout in milliseconds (default: 300000 = 5 minutes, max: 3600000). " +
+                "A upload that runs out of time can be resumed by calling the tool again",
+              default: 300000,
+            },
+            resume: {
+              type: "boolean",
+              description: "Continue an interrupted upload of the same file from the last verified chunk (default: true)",
+              default: true,
+            },
+            compress: {
+              type: "boolean",
+              description: "Compress chunks with gzip when the remote host has it (default: true)",
+              default: true,
+            },
+            include: {
+              type: "array",
+              items: { type: "string" },
+              description:
+                "For directories and globs: only upload files whose path relative to the source matches one of these globs " +
+                "(e.g. ['*.conf', 'sites/*']). '*' also matches '/'",
+            },
+            exclude: {
+              type: "array",
+              items: { type: "string" },
+              description: "For directories and globs: skip entries matching these globs, including everything below excluded directories",
+            },
+            dry_run: {
+              type: "boolean",
+              description: "List what would be transferred without transferring anything (default: false)",
+              default: false,
+            },
+            priority: {
+              type: "number",
+              description: "Queue priority when the session is busy; higher runs first, equal priorities run in arrival order (default: 0)",
+              default: 0,
+            },
+            queue_timeout: {
+              type: "number",
+              description: "How long to wait for a busy session in milliseconds before giving up (default: 300000, max: 3600000)",
+              default: 300000,
+            },
+          },
+          required: ["local_path", "remote_path"],
+        },
+      },
+      {
+        name: "terminal_download_file",
+        description:
+          "Download a file, directory or glob from remote server to local machine through the terminal session. " +
+          "Works seamlessly with SSH and nested SSH connections. " +
+          "Sent in SHA-256 verified chunks that resume after a dropped connection; reports progress when the client asks for it. " +
+          "Directories and globs are packed with tar, keeping permissions and modification times. " +
+          "Maximum file size: 1GB.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            remote_path: {
+              type: "string",
+              description: "Path to the file, directory or glob (e.g. /var/log/nginx/*.log) on remote server",
+            },
+            local_path: {
+              type: "string",
+              description:
+                "Destination path on local machine. Directories and globs are unpacked into this directory, " +
+                "a directory keeping its own name inside it",
+            },
+            session_id: {
+              type: "string",
+              description: "Session identifier to use for download (default: 'default')",
+              default: "default",
+            },
+            timeout: {
+              type: "number",
+              description:
+                "Download timeout in milliseconds (default: 300000 = 5 minutes, max: 3600000). " +
+                "A download that runs out of time can be resumed by calling the tool again",
+              default: 300000,
+            },
+            resume: {
+              type: "boolean",
+              description: "Continue an interrupted download of the same file from the last verified chunk (default: true)",
+              default: true,
+            },
+            compress: {
+              type: "boolean",
+              description: "Compress chunks with gzip when the remote host has it (default: true)",
+              default: true,
+            },
+            include: {
+              type: "array",
+              items: { type: "string" },
+              description:
+                "For directories and globs: only download files whose path relative to the source matches one of these globs " +
+                "(e.g. ['*.conf', 'sites/*']). '*' also matches '/'",
+            },
+            exclude: {
+              type: "array",
+              items: { type: "string" },
+              description: "For directories and globs: skip entries matching these globs, including everything below excluded directories",
+            },
+            dry_run: {
+              type: "boolean",
+              description: "List what would be transferred without transferring anything (default: false)",
+              default: false,
+            },
+            priority: {
+              type: "number",
+              description: "Queue priority when the session is busy; higher runs first, equal priorities run in arrival order (default: 0)",
+              default: 0,
+            },
+            queue_timeout: {
+              type: "number",
+              description: "How long to wait for a busy session in milliseconds before giving up (default: 300000, max: 3600000)",
+              default: 300000,
+            },
+          },
+          required: ["remote_path", "local_path"],
+        },
+      },
+      {
+        name: "terminal_read_file",
+        description:
+          "Read a text file on the remote server through the terminal session, optionally only a range of lines. " +
+          "Works through SSH and nested SSH connections. Files over max_bytes must be read by line range.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            remote_path: {
+              type: "string",
+              description: "Path to the file on the remote server",
+            },
+            start_line: {
+              type: "number",
+              description: "First line to read, 1-based (default: 1)",
+            },
+            end_line: {
+              type: "number",
+              description: "Last line to read, inclusive (default: end of file)",
+            },
+            max_bytes: {
+              type: "number",
+              description: `Refuse to return more than this many bytes (default: ${DEFAULT_READ_BYTES}, max: ${MAX_READ_BYTES})`,
+              default: DEFAULT_READ_BYTES,
+            },
+            session_id: {
+              type: "string",
+              description: "Session identifier to use (default: 'default')",
+              default: "default",
+            },
+          },
+          required: ["remote_path"],
+        },
+      },
+      {
+        name: "terminal_write_file",
+        description:
+          "Write a text file on the remote server through the terminal session, replacing it atomically: " +
+          "the content is uploaded to a temp file next to the target, checked with SHA-256 and moved into place, " +
+          "so the file is never left half-written. An existing file keeps its permissions. " +
+          "Prefer this over heredocs or sed through terminal_execute.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            remote_path: {
+              type: "string",
+              description: "Path to the file on the remote server",
+            },
+            content: {
+              type: "string",
+              description: "Full new content of the file",
+            },
+            create_dirs: {
+              type: "boolean",
+              description: "Create missing parent directories (default: false)",
+              default: false,
+            },
+            mode: {
+              type: "string",
+              description: "Octal permissions to set, e.g. '644' or '0755' (default: keep the existing file's permissions)",
+            },
+            backup: {
+              type: "boolean",
+              description: `Keep a copy of the previous content as <file>${BACKUP_SUFFIX} (default: false)`,
+              default: false,
+            },
+            allow_redacted: {
+              type: "boolean",
+              description:
+                "Write text containing [REDACTED:...] markers as is (default: false). Secrets in tool results are " +
+                "replaced by these markers, so by default content carrying one is refused instead of overwriting the secret",
+              default: false,
+            },
+            session_id: {
+              type: "string",
+              description: "Session identifier to use (default: 'default')",
+              default: "default",
+            },
+          },
+          required: ["remote_path", "content"],
+        },
+      },
+      {
+        name: "terminal_apply_patch",
+        description:
+          "Apply a unified diff to a text file on the remote server through the terminal session. " +
+          "Hunks are matched by their context lines, so line numbers may be slightly off. " +
+          "The file is replaced atomically only if every hunk applies and the file did not change meanwhile, " +
+          `and the previous version is kept as <file>${BACKUP_SUFFIX}. Returns a preview of the applied hunks.`,
+        inputSchema: {
+          type: "object",
+          properties: {
+            remote_path: {
+              type: "string",
+              description: "Path to the file on the remote server",
+            },
+            patch: {
+              type: "string",
+              description: "Unified diff for this one file (--- / +++ headers optional, @@ hunk headers required)",
+            },
+            dry_run: {
+              type: "boolean",
+              description: "Only check that the patch applies and show the preview, without writing (default: false)",
+              default: false,
+            },
+            backup: {
+              type: "boolean",
+              description: `Keep the previous content as <file>${BACKUP_SUFFIX} (default: true)`,
+              default: true,
+            },
+            allow_redacted: {
+              type: "boolean",
+              description:
+                "Write text containing [REDACTED:...] markers as is (default: false). Secrets in tool results are " +
+                "replaced by these markers, so by default content carrying one is refused instead of overwriting the secret",
+              default: false,
+            },
+            session_id: {
+              type: "string",
+              description: "Session identifier to use (default: 'default')",
+              default: "default",
+            },
+          },
+          required: ["remote_path", "patch"],
+        },
+      },
+      {
+        name: "terminal_list_dir",
+        description:
+          "List a directory on the remote server through the terminal session as JSON: name, type, size, mode, owner, group, " +
+          "mtime and symlink target for each entry. Use this instead of parsing 'ls -la'. " +
+          "Works with GNU and BSD systems and through SSH.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            remote_path: {
+              type: "string",
+              description: "Directory on the remote server (default: the session's current directory)",
+              default: ".",
+            },
+            depth: {
+              type: "number",
+              description: `How many levels to descend; 1 lists only direct children (default: 1, max: ${MAX_LIST_DEPTH})`,
+              default: 1,
+            },
+            include: {
+              type: "array",
+              items: { type: "string" },
+              description: "Only list entries whose relative path or name matches one of these globs (e.g. ['*.log'])",
+            },
+            exclude: {
+              type: "array",
+              items: { type: "string" },
+              description: "Skip entries matching these globs, including everything below excluded directories",
+            },
+            limit: {
+              type: "number",
+              description: `Maximum entries to return (default: ${DEFAULT_LIST_LIMIT}, max: ${MAX_LIST_LIMIT})`,
+              default: DEFAULT_LIST_LIMIT,
+            },
+            session_id: {
+              type: "string",
+              description: "Session identifier to use (default: 'default')",
+              default: "default",
+            },
+          },
+        },
+      },
+      {
+        name: "terminal_stat",
+        description:
+          "Get metadata for a path on the remote server as JSON: type, size, mode, owner, group, mtime and symlink target. " +
+          "Returns exists: false instead of an error when the path is missing.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            remote_path: {
+              type: "string",
+              description: "Path on the remote server",
+            },
+            session_id: {
+              type: "string",
+              description: "Session identifier to use (default: 'default')",
+              default: "default",
+            },
+          },
+          required: ["remote_path"],
+        },
+      },
+      {
+        name: "terminal_start_job",
+        description:
+          "Start a long-running command in the background and return a job id immediately. " +
+          "Use this for builds, deployments, migrations or 'tail -f' that would exceed the terminal_execute timeout. " +
+          "The job runs inside the session's current shell (including SSH sessions), so the session stays usable. " +
+          "Poll it with terminal_job_status, terminal_job_output and terminal_job_wait.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            command: {
+              type: "string",
+              description: "The command to run in the background",
+            },
+            session_id: {
+              type: "string",
+              description: "Session identifier to run the job in (default: 'default')",
+              default: "default",
+            },
+            confirm_token: {
+              type: "string",
+              description:
+                "Confirmation token returned by a previous call that was held for confirmation by the command policy. " +
+                "Only pass it after the user has approved the command.",
+            },
+          },
+          required: ["command"],
+        },
+      },
+      {
+        name: "terminal_job_status",
+        description: "Get the status of a background job (running, completed, failed or lost), its exit code and output size",
+        inputSchema: {
+          type: "object",
+          properties: {
+            job_id: {
+              type: "string",
+              description: "Job ID returned by terminal_start_job",
+            },
+          },
+          required: ["job_id"],
+        },
+      },
+      {
+        name: "terminal_job_output",
+        description:
+          "Read the output of a background job incrementally. " +
+          "Pass the returned next_offset as offset on the following call to only get new output.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            job_id: {
+              type: "string",
+              description: "Job ID returned by terminal_start_job",
+            },
+            offset: {
+              type: "number",
+              description: "Byte offset to start reading from (default: 0)",
+              default: 0,
+            },
+            max_bytes: {
+              type: "number",
+              description: "Maximum number of bytes to return (default: 262144, max: 262144)",
+              default: 262144,
+            },
+          },
+          required: ["job_id"],
+        },
+      },
+      {
+        name: "terminal_job_wait",
+        description:
+          "Wait for a background job to finish, up to the given timeout. " +
+          "Returns the job status; call again if the job is still running.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            job_id: {
+              type: "string",
+              description: "Job ID returned by terminal_start_job",
+            },
+            timeout: {
+              type: "number",
+              description: "Maximum time to wait in milliseconds (default: 60000, max: 120000)",
+              default: 60000,
+            },
+          },
+          required: ["job_id"],
+        },
+      },
+      {
+        name: "terminal_send_input",
+        description:
+          "Send raw text and/or named keys to a session without waiting for the command to finish. " +
+          "Use this to answer prompts (passwords, [y/N] confirmations) and to drive REPLs and TUIs " +
+          "such as psql, mysql or python. Combine with terminal_expect to wait for the program's response.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            session_id: {
+              type: "string",
+              description: "Session ID (default: 'default')",
+              default: "default",
+            },
+            input: {
+              type: "string",
+              description: "Raw text to type. No newline is added; use keys: ['Enter'] to submit.",
+            },
+            keys: {
+              type: "array",
+              items: { type: "string" },
+              description:
+                "Named keys sent after the input text, e.g. ['Enter'], ['Ctrl-C'], ['Up', 'Enter']. " +
+                "Supported: Enter, Tab, Space, Backspace, Escape, Up, Down, Left, Right, Home, End, " +
+                "PageUp, PageDown, Insert, Delete, Ctrl-A through Ctrl-Z, Ctrl-\\",
+            },
+            confirm_token: {
+              type: "string",
+              description:
+                "Confirmation token returned by a previous call that was held for confirmation by the command policy. " +
+                "Text typed over several calls is checked as one line when it is submitted (Enter, Ctrl-M, Ctrl-J or Ctrl-O); " +
+                "text left unsubmitted is cleared before the next terminal_execute. " +
+                "Only pass it after the user has approved the command.",
+            },
+          },
+        },
+      },
+      {
+        name: "terminal_expect",
+        description:
+          "Wait until the session output produced since the last terminal_send_input matches a regular expression. " +
+          "Returns the output up to and including the match, or the output received so far on timeout.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            session_id: {
+              type: "string",
+              description: "Session ID (default: 'default')",
+              default: "default",
+            },
+            pattern: {
+              type: "string",
+              description: "Regular expression to wait for, e.g. 'password:', '\\[y/N\\]', '^>>> $', 'postgres=#'",
+            },
+            flags: {
+              type: "string",
+              description: "Regular expression flags, e.g. 'i' for case-insensitive or 'm' for multiline",
+              default: "",
+            },
+            timeout: {
+              type: "number",
+              description: "Maximum time to wait in milliseconds (default: 10000, max: 120000)",
+              default: 10000,
+            },
+          },
+          required: ["pattern"],
+        },
+      },
+      {
+        name: "terminal_ssh_connect",
+        description:
+          "Create a new session connected directly to a remote host over SSH. " +
+          "Uses key or agent authentication (no password prompts), supports jump hosts, custom ports and " +
+          "known_hosts policies, and returns a structured error (auth_failed, host_unresolved, connection_refused, ...) " +
+          "when the connection cannot be established. Use the returned session_id with terminal_execute.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            session_id: {
+              type: "string",
+              description: "Unique identifier for the new session",
+            },
+            host: {
+              type: "string",
+              description: "Host name or IP address to connect to (may also be a Host alias from ~/.ssh/config)",
+            },
+            user: {
+              type: "string",
+              description: "Remote user name (optional)",
+            },
+            port: {
+              type: "number",
+              description: "SSH port (default: 22)",
+            },
+            identity_file: {
+              type: "string",
+              description: "Path to a private key file to authenticate with (optional, defaults to ssh-agent and ~/.ssh keys)",
+            },
+            agent_forwarding: {
+              type: "boolean",
+              description: "Forward the local ssh-agent to the remote host (default: false)",
+              default: false,
+            },
+            jump_hosts: {
+              type: "array",
+              items: { type: "string" },
+              description: "Jump hosts to connect through, in order, e.g. ['user@bastion', 'user@internal:2222']",
+            },
+            known_hosts_policy: {
+              type: "string",
+              enum: ["strict", "accept-new", "no-check"],
+              description:
+                "Host key policy: 'strict' only allows known hosts, 'accept-new' records new hosts but rejects changed keys, " +
+                "'no-check' disables verification (default: 'accept-new')",
+              default: "accept-new",
+            },
+            ssh_options: {
+              type: "array",
+              items: { type: "string" },
+              description:
+                "Additional ssh -o options, e.g. ['Compression=yes']. ProxyCommand, LocalCommand, PermitLocalCommand " +
+                "and KnownHostsCommand are refused since they run local commands",
+            },
+            timeout: {
+              type: "number",
+              description: "Connection timeout in milliseconds (default: 30000, max: 120000)",
+              default: 30000,
+            },
+            backend: {
+              type: "string",
+              enum: ["pty", "tmux"],
+              description: "Run the SSH client in a pty (default) or in a tmux window a human can attach to",
+            },
+          },
+          required: ["session_id", "host"],
+        },
+      },
+      {
+        name: "terminal_list_profiles",
+        description:
+          "List the named session profiles defined in shellkeeper.config.json. " +
+          "Pass a profile name to terminal_new_session to start a fully prepared session.",
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+      },
+      {
+        name: "terminal_audit_query",
+        description:
+          "Search the persistent audit log of executed commands, jobs, input, file transfers and session lifecycle events. " +
+          "Returns matching records as JSON lines, newest last.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            session_id: {
+              type: "string",
+              description: "Only return records for this session",
+            },
+            host: {
+              type: "string",
+              description: "Only return records whose host or any hop on the way to it matches this glob, e.g. 'prod-*'",
+            },
+            event: {
+              type: "string",
+              enum: ["command", "job_start", "input", "upload", "download", "session_create", "session_close", "session_exit"],
+              description: "Only return records of this event type",
+            },
+            since: {
+              type: "string",
+              description: "Only return records at or after this ISO 8601 timestamp, e.g. '2025-01-31T00:00:00Z'",
+            },
+            until: {
+              type: "string",
+              description: "Only return records at or before this ISO 8601 timestamp",
+            },
+            command_contains: {
+              type: "string",
+              description: "Only return records whose command contains this text",
+            },
+            limit: {
+              type: "number",
+              description: "Maximum number of most recent records to return (default: 50, max: 1000)",
+              default: 50,
+            },
+          },
+        },
+      },
+    ],
+  };
+});
+
+function progressReporter(request: CallToolRequest): ((progress: number, total: number) => void) | undefined {
+  const progressToken = request.params._meta?.progressToken;
+  if (progressToken === undefined) {
+    return undefined;
+  }
+
+  return (progress, total) => {
+    server.notification({ method: "notifications/progress", params: { progressToken, progress, total } }).catch((error) => {
+      console.error("[ShellKeeper] Could not send progress notification:", error.message);
+    });
+  };
+}
+
+function queuedSessionId(name: string, args: any): string | null {
+  switch (name) {
+    case "terminal_execute":
+    case "terminal_execute_batch":
+    case "terminal_upload_file":
+    case "terminal_download_file":
+    case "terminal_read_file":
+    case "terminal_write_file":
+    case "terminal_apply_patch":
+    case "terminal_list_dir":
+    case "terminal_stat":
+    case "terminal_start_job":
+      return args?.session_id || "default";
+    case "terminal_session_info":
+      return args?.refresh ? args.session_id || "default" : null;
+    case "terminal_reconnect":
+      return args?.action === "acknowledge" ? null : args?.session_id || "default";
+    case "terminal_job_status":
+    case "terminal_job_output":
+      try {
+        return findJob(args?.job_id).session.id;
+      } catch {
+        return null;
+      }
+    default:
+      return null;
+  }
+}
+
+function queueLabel(name: string, args: any): string {
+  if (args?.command) {
+    return args.command;
+  }
+  if (Array.isArray(args?.steps)) {
+    return `(execute batch, ${args.steps.length} steps)`;
+  }
+  const target = args?.remote_path || args?.job_id;
+  return `(${name.replace(/^terminal_/, "").replace(/_/g, " ")}${target ? ` ${target}` : ""})`;
+}
+
+function errorResult(error: any) {
+  console.error(`[ShellKeeper] Error: ${redactSecrets(error.message)}`);
+  return {
+    content: [
+      {
+        type: "text",
+        text: `Error: ${error.message}`,
+      },
+    ],
+    isError: true,
+  };
+}
+
+async function callTool(request: CallToolRequest) {
+  const { name, arguments: args } = request.params;
+  const sessionId = queuedSessionId(name, args);
+  if (!sessionId) {
+    return dispatchTool(request);
+  }
+
+  const { priority = 0, queue_timeout } = (args || {}) as any;
+  try {
+    return await runQueued(sessionId, queueLabel(name, args), { priority, timeout: queue_timeout }, () =>
+      dispatchTool(request)
+    );
+  } catch (error: any) {
+    return errorResult(error);
+  }
+}
+
+async function dispatchTool(request: CallToolRequest) {
+  const { name, arguments: args } = request.params;
+
+  try {
+    switch (name) {
+      case "terminal_execute": {
+        const {
+          command,
+          session_id = "default",
+          timeout = 30000,
+          structured = false,
+          separate_stderr = false,
+          max_output_bytes = DEFAULT_MAX_OUTPUT_BYTES,
+          on_timeout = "interrupt",
+          confirm_token,
+        } = args as any;
+        const failOnNonzero = (args as any).fail_on_nonzero ?? !structured;
+
+        const validTimeout = Math.min(Math.max(timeout, 1000), 120000);
+        const maxOutputBytes = Math.min(Math.max(max_output_bytes, 1024), MAX_OUTPUT_LENGTH);
+
+        let session = sessions.get(session_id);
+        if (!session) {
+          console.error(`[ShellKeeper] Creating new session: ${session_id}`);
+          session = createSession(session_id);
+          await sleep(500);
+        }
+
+        const result = await executeAudited(session, command, validTimeout, {
+          separateStderr: separate_stderr,
+          onTimeout: on_timeout,
+          confirmToken: confirm_token,
+        });
+        const shown = truncateResult(result, maxOutputBytes);
+
+        if (failOnNonzero && shown.exitCode !== 0) {
+          throw new Error(
+            `Command exited with code ${shown.exitCode}\n` +
+            `Command: ${command}\n` +
+            `Output: ${shown.stdout || "(no output)"}` +
+            (shown.stderr ? `\nStderr: ${shown.stderr}` : "")
+          );
+        }
+
+        if (structured) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(formatCommandResult(shown), null, 2),
+              },
+            ],
+          };
+        }
+
+        let text = shown.stdout || "(Command executed successfully with no output)";
+        if (shown.stderr) {
+          text += `\n\n[stderr]\n${shown.stderr}`;
+        }
+        if (shown.exitCode !== 0) {
+          text += `\n\n(exit code ${shown.exitCode})`;
+        }
+        if (shown.truncated) {
+          text += `\n\n(output truncated; full output stored as ${shown.outputId}, page through it with terminal_read_output)`;
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text,
+            },
+          ],
+        };
+      }
+
+      case "terminal_execute_batch": {
+        const {
+          steps,
+          session_id = "default",
+          timeout = 30000,
+          continue_on_error = false,
+          separate_stderr = false,
+          max_output_bytes = DEFAULT_BATCH_OUTPUT_BYTES,
+          on_timeout = "interrupt",
+        } = args as any;
+
+        if (!Array.isArray(steps) || steps.length === 0) {
+          throw new Error("Provide at least one step");
+        }
+        if (steps.length > MAX_BATCH_STEPS) {
+          throw new Error(`Too many steps (${steps.length}); a batch can have at most ${MAX_BATCH_STEPS}`);
+        }
+
+        const plan = steps.map((step: any) => (typeof step === "string" ? { command: step } : step || {}));
+        const missing = plan.findIndex((step: any) => typeof step.command !== "string" || !step.command.trim());
+        if (missing !== -1) {
+          throw new Error(`Step ${missing + 1} has no command`);
+        }
+
+        const maxOutputBytes = Math.min(Math.max(max_output_bytes, 1024), MAX_OUTPUT_LENGTH);
+
+        let session = sessions.get(session_id);
+        if (!session) {
+          console.error(`[ShellKeeper] Creating new session: ${session_id}`);
+          session = createSession(session_id);
+          await sleep(500);
+        }
+
+        const startedAt = Date.now();
+        const report: Record<string, unknown>[] = [];
+        let stoppedAt: number | null = null;
+
+        for (const [index, step] of plan.entries()) {
+          if (stoppedAt !== null) {
+            report.push({ step: index + 1, command: step.command, status: "skipped" });
+            continue;
+          }
+
+          const continueOnError = step.continue_on_error ?? continue_on_error;
+          const stepTimeout = Math.min(Math.max(step.timeout ?? timeout, 1000), 120000);
+          try {
+            const result = await executeAudited(session, step.command, stepTimeout, {
+              separateStderr: separate_stderr,
+              onTimeout: on_timeout,
+              confirmToken: step.confirm_token,
+            });
+            const shown = truncateResult(result, maxOutputBytes);
+            const { command, ...details } = formatCommandResult(shown);
+            report.push({ step: index + 1, command, status: shown.exitCode === 0 ? "ok" : "failed", ...details });
+            if (shown.exitCode !== 0 && !continueOnError) {
+              stoppedAt = index + 1;
+            }
+          } catch (error: any) {
+            report.push({ step: index + 1, command: step.command, status: "error", error: error.message });
+            if (!continueOnError || error.decision || sessions.get(session_id) !== session) {
+              stoppedAt = index + 1;
+            }
+          }
+        }
+
+        const count = (status: string) => report.filter((entry) => entry.status === status).length;
+        const summary = {
+          session_id,
+          status: stoppedAt === null ? "completed" : "stopped",
+          stopped_at: stoppedAt,
+          total: plan.length,
+          ok: count("ok"),
+          failed: count("failed"),
+          errors: count("error"),
+          skipped: count("skipped"),
+          duration_ms: Date.now() - startedAt,
+          steps: report,
+        };
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(summary, null, 2),
+            },
+          ],
+          isError: stoppedAt !== null,
+        };
+      }
+
+      case "terminal_execute_many": {
+        const {
+          command,
+          session_ids = [],
+          profile_group,
+          timeout = 30000,
+          concurrency = DEFAULT_FANOUT_CONCURRENCY,
+          structured = false,
+          max_output_bytes = DEFAULT_BATCH_OUTPUT_BYTES,
+          on_timeout = "interrupt",
+          priority = 0,
+          queue_timeout,
+          confirm_tokens = {},
+        } = args as any;
+
+        const targets = new Map<string, string | null>();
+        for (const id of session_ids) {
+          targets.set(id, null);
+        }
+        for (const profile of profile_group ? getProfileGroup(profile_group) : []) {
+          const opened = Array.from(sessions.values()).find((session) => session.profile === profile);
+          targets.set(opened ? opened.id : profile, opened ? null : profile);
+        }
+
+        if (targets.size === 0) {
+          throw new Error("Provide session_ids, a profile_group, or both");
+        }
+        if (targets.size > MAX_FANOUT_SESSIONS) {
+          throw new Error(`Too many sessions (${targets.size}); terminal_execute_many runs on at most ${MAX_FANOUT_SESSIONS}`);
+        }
+
+        const validTimeout = Math.min(Math.max(timeout, 1000), 120000);
+        const maxOutputBytes = Math.min(Math.max(max_output_bytes, 1024), MAX_OUTPUT_LENGTH);
+        const limit = Math.min(Math.max(concurrency, 1), MAX_FANOUT_CONCURRENCY);
+
+        console.error(`[ShellKeeper] Executing on ${targets.size} session(s): ${redactSecrets(command)}`);
+        const startedAt = Date.now();
+        const opened = await runWithConcurrency(Array.from(targets), limit, async ([sessionId, profile]) => {
+          const openStartedAt = Date.now();
+          try {
+            let session = sessions.get(sessionId);
+            let openedNow = false;
+            if (session && profile && session.profile !== profile) {
+              throw new Error(`Session ${sessionId} was not opened from profile ${profile}; close it to let the profile open its own`);
+            }
+            if (!session && profile) {
+              session = await openProfileSession(sessionId, profile);
+              openedNow = true;
+            }
+            if (!session) {
+              throw new Error(`Session ${sessionId} not found`);
+            }
+            return { sessionId, session, openedNow, startedAt: openStartedAt, error: null };
+          } catch (error: any) {
+            return { sessionId, session: null, openedNow: false, startedAt: openStartedAt, error: error.message as string };
+          }
+        });
+
+        const held: string[] = [];
+        const tokens: Record<string, string> = {};
+        for (const { session } of opened) {
+          if (!session) {
+            continue;
+          }
+          const decision = evaluateCommand(session, command);
+          const confirmed = decision.action === "confirm" && hasConfirmation(session, command, confirm_tokens[session.id]);
+          if (decision.action === "allow" || confirmed) {
+            continue;
+          }
+          audit("command", session, { command, status: "denied", error: decision.reason });
+          if (decision.action === "confirm") {
+            tokens[session.id] = requestConfirmation(session, command);
+          }
+          held.push(
+            `- ${session.id}: ${decision.action === "deny" ? "blocked" : "needs confirmation"} ` +
+            `by policy "${decision.policy}": ${decision.reason}`
+          );
+        }
+        if (held.length > 0) {
+          // Profile sessions opened for this call would otherwise stay connected although nothing ran on them.
+          for (const { session, openedNow } of opened) {
+            if (session && openedNow && sessions.get(session.id) === session) {
+              console.error(`[ShellKeeper] Closing session ${session.id}: the fan-out was held by policy`);
+              audit("session_close", session);
+              sessions.delete(session.id);
+              session.ptyProcess.kill();
+            }
+          }
+          const blocked = held.length - Object.keys(tokens).length;
+          throw new Error(
+            `Nothing was run: the command is blocked or needs confirmation in ${held.length} session(s)\n` +
+            `Command: ${command}\n` +
+            held.join("\n") +
+            (blocked > 0 ? "\nRemove the blocked sessions from the targets to run it on the others." : "") +
+            (blocked < held.length
+              ? `\nTo run it anyway, call terminal_execute_many again with the same command and targets and ` +
+                `confirm_tokens: ${JSON.stringify(tokens)} (valid for ${CONFIRMATION_TTL / 1000}s, single use).`
+              : "")
+          );
+        }
+
+        const results = await runWithConcurrency(opened, limit, async (entry): Promise<FanoutResult> => {
+          const { sessionId, session } = entry;
+          try {
+            if (!session) {
+              throw new Error(entry.error!);
+            }
+
+            const target = session;
+            const result = truncateResult(
+              await runQueued(sessionId, command, { priority, timeout: queue_timeout }, () =>
+                executeAudited(target, command, validTimeout, { onTimeout: on_timeout, confirmToken: confirm_tokens[sessionId] })
+              ),
+              maxOutputBytes
+            );
+            return {
+              sessionId,
+              location: formatLocation(target.context),
+              status: result.exitCode === 0 ? "ok" : "failed",
+              exitCode: result.exitCode,
+              durationMs: result.durationMs,
+              stdout: result.stdout,
+              stderr: result.stderr,
+              truncated: result.truncated,
+              outputId: result.outputId,
+              error: null,
+            };
+          } catch (error: any) {
+            const current = sessions.get(sessionId);
+            return {
+              sessionId,
+              location: current ? formatLocation(current.context) : null,
+              status: "error",
+              exitCode: null,
+              durationMs: Date.now() - entry.startedAt,
+              stdout: "",
+              stderr: null,
+              truncated: false,
+              outputId: null,
+              error: error.message,
+            };
+          }
+        });
+
+        const summary = summarizeFanout(results);
+        const durationMs = Date.now() - startedAt;
+
+        if (structured) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    command,
+                    total: summary.total,
+                    ok: summary.ok,
+                    failed: summary.failed,
+                    errors: summary.errors,
+                    duration_ms: durationMs,
+                    majority: summary.majority
+                      ? { sessions: summary.majority.sessionIds, exit_code: summary.majority.exitCode }
+                      : null,
+                    outliers: summary.outliers.map((group) => ({ sessions: group.sessionIds, exit_code: group.exitCode })),
+                    summary: formatFanoutSummary(summary, durationMs),
+                    results: results.map((result) => ({
+                      session_id: result.sessionId,
+                      location: result.location,
+                      status: result.status,
+                      exit_code: result.exitCode,
+                      duration_ms: result.durationMs,
+                      stdout: result.stdout,
+                      stderr: result.stderr,
+                      truncated: result.truncated,
+                      output_id: result.outputId,
+                      error: result.error,
+                    })),
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+            isError: summary.ok === 0,
+          };
+        }
+
+        const sections = results.map(
+          (result) =>
+            `=== ${result.sessionId}${result.location ? ` (${result.location})` : ""}: ` +
+            (result.status === "error"
+              ? `error\n${result.error}`
+              : `exit ${result.exitCode}, ${result.durationMs}ms\n` +
+                (result.stdout || "(no output)") +
+                (result.stderr ? `\n[stderr]\n${result.stderr}` : "") +
+                (result.truncated ? `\n(output truncated; full output stored as ${result.outputId})` : ""))
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `${formatFanoutSummary(summary, durationMs)}\n\n${sections.join("\n\n")}`,
+            },
+          ],
+          isError: summary.ok === 0,
+        };
+      }
+
+      case "terminal_new_session": {
+        const { session_id, shell, profile, policy, backend } = args as any;
+
+        if (sessions.has(session_id)) {
+          throw new Error(
+            `Session ${session_id} already exists. ` +
+            `Use terminal_close_session first if you want to recreate it.`
+          );
+        }
+
+        if (policy && !getConfig().policies?.[policy]) {
+          throw new Error(`Policy ${policy} is not defined in the config file`);
+        }
+
+        if (profile) {
+          console.error(`[ShellKeeper] Creating new session ${session_id} from profile ${profile}`);
+          const session = await openProfileSession(session_id, profile, shell, policy, backend);
+
+          return {
+            content: [
+              {
+                type: "text",
+                text:
+                  `Created new terminal session: ${session_id} (profile: ${profile})` +
+                  (session.backend === "tmux" ? `\nWatch it with: ${tmuxAttachCommand(session_id)}` : ""),
+              },
+            ],
+          };
+        }
+
+        console.error(`[ShellKeeper] Creating new session: ${session_id}`);
+        const session = createSession(session_id, shell, { policy, backend });
+        await sleep(500);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text:
+                `Created new terminal session: ${session_id}${shell ? ` (shell: ${shell})` : ""}` +
+                (session.backend === "tmux" ? `\nWatch it with: ${tmuxAttachCommand(session_id)}` : ""),
+            },
+          ],
+        };
+      }
+
+      case "terminal_list_sessions": {
+        const sessionList = Array.from(sessions.entries()).map(([id, session]) => ({
+          id,
+          ready: session.isReady && !queueState(id).active,
+          degraded: session.degraded?.reason ?? null,
+          queue: queueState(id),
+          lastCommand: session.lastCommand || "(none)",
+          createdAt: session.createdAt.toISOString(),
+          uptime: Math.floor((Date.now() - session.createdAt.getTime()) / 1000),
+          runningJobs: Array.from(session.jobs.values()).filter((job) => job.status === "running").length,
+          host: session.target ? formatSshTarget(session.target) : "local",
+          profile: session.profile,
+          attach: session.backend === "tmux" ? tmuxAttachCommand(id) : null,
+          location: formatLocation(session.context),
+          hops: session.context.frames.length > 1 ? formatHops(session.context) : null,
+        }));
+
+        const lostList = Array.from(lostSessions.values())
+          .map(
+            (lost) =>
+              `  • ${lost.id}\n` +
+              `    Host: ${formatSshTarget(lost.target)}\n` +
+              `    Lost: ${lost.reason} (${lost.lostAt.toISOString()})\n` +
+              `    Shells: ${lost.frames.map((frame) => `${frame.user}@${frame.host}`).join(" → ")}`
+          )
+          .join("\n\n");
+        const lostText = lostList ? `\n\nDisconnected sessions (reopen with terminal_reconnect):\n\n${lostList}` : "";
+
+        if (sessionList.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `No active sessions${lostText}`,
+              },
+            ],
+          };
+        }
+
+        const formatted = sessionList
+          .map(
+            (s) =>
+              `  • ${s.id}\n` +
+              `    Status: ${s.degraded ? `⚠ degraded (${s.degraded})` : s.ready ? "✓ ready" : "⏳ busy"}\n` +
+              `    Host: ${s.host}\n` +
+              `    Location: ${s.location}\n` +
+              (s.hops ? `    Shells: ${s.hops}\n` : "") +
+              (s.profile ? `    Profile: ${s.profile}\n` : "") +
+              `    Last command: ${s.lastCommand}\n` +
+              (s.queue.active
+                ? `    Running: ${s.queue.active.label} (${Math.floor((Date.now() - s.queue.active.startedAt.getTime()) / 1000)}s)\n`
+                : "") +
+              (s.queue.waiting.length > 0
+                ? `    Queued (${s.queue.waiting.length}):\n` +
+                  s.queue.waiting
+                    .map(
+                      (item) =>
+                        `      - ${item.label}` +
+                        (item.priority !== 0 ? ` [priority ${item.priority}]` : "") +
+                        ` waiting ${Math.floor((Date.now() - item.enqueuedAt.getTime()) / 1000)}s\n`
+                    )
+                    .join("")
+                : "") +
+              `    Running jobs: ${s.runningJobs}\n` +
+              (s.attach ? `    Attach: ${s.attach}\n` : "") +
+              `    Uptime: ${s.uptime}s`
+          )
+          .join("\n\n");
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Active sessions (${sessionList.length}):\n\n${formatted}${lostText}`,
+            },
+          ],
+        };
+      }
+
+      case "terminal_session_info": {
+        const { session_id = "default", refresh = false } = args as any;
+
+        const session = sessions.get(session_id);
+        if (!session) {
+          const lost = lostSessions.get(session_id);
+          throw new Error(
+            lost
+              ? `Session ${session_id} lost its connection to ${formatSshTarget(lost.target)}: ${lost.reason}. ` +
+                `Use terminal_reconnect to reopen it.`
+              : `Session ${session_id} not found`
+          );
+        }
+
+        if (refresh) {
+          await runCommand(session, noopCommand(session.shellFamily), 10000, { label: "(refresh session context)" });
+        }
+
+        const { context } = session;
+        const frame = currentFrame(context);
+        const info = {
+          id: session.id,
+          status: session.degraded ? "degraded" : session.isReady && !queueState(session.id).active ? "ready" : "busy",
+          queued: queueState(session.id).waiting.length,
+          degraded: session.degraded
+            ? {
+                reason: session.degraded.reason,
+                detected_at: session.degraded.detectedAt.toISOString(),
+                lost: session.degraded.lostFrames.map((f) => `${f.user}@${f.host}`),
+              }
+            : null,
+          backend: session.backend,
+          shell_family: session.shellFamily,
+          target: session.target ? formatSshTarget(session.target) : "local",
+          profile: session.profile,
+          cwd: context.cwd,
+          user: frame?.user ?? null,
+          hostname: frame?.host ?? null,
+          os: frame?.os ?? null,
+          shell: frame?.shell ?? null,
+          ssh_depth: sshHops(context).length,
+          shells: context.frames.map((f) => ({ via: f.via, user: f.user, host: f.host, os: f.os, shell: f.shell })),
+          last_command: session.lastCommand || null,
+          context_updated_at: context.updatedAt ? context.updatedAt.toISOString() : null,
+          created_at: session.createdAt.toISOString(),
+          uptime_seconds: Math.floor((Date.now() - session.createdAt.getTime()) / 1000),
+        };
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(info, null, 2),
+            },
+          ],
+        };
+      }
+
+      case "terminal_reconnect": {
+        const { session_id = "default", action = "reconnect", timeout = SSH_CONNECT_TIMEOUT, confirm_token } = args as any;
+
+        if (action === "acknowledge") {
+          return {
+            content: [
+              {
+                type: "text",
+                text: acknowledgeDisconnect(session_id),
+              },
+            ],
+          };
+        }
+
+        const validTimeout = Math.min(Math.max(timeout, 1000), 120000);
+        console.error(`[ShellKeeper] Reconnecting session ${session_id}`);
+        const result = await reconnectSession(
+          session_id,
+          (session, command) => executeAudited(session, command, validTimeout, { allowDegraded: true, confirmToken: confirm_token }),
+          validTimeout
+        );
+
+        const notes = [
+          ...result.skipped.map(
+            (frame) => `Not replayed: ${frame.user}@${frame.host} (${frame.via === "ssh" ? "no recorded ssh command" : frame.shell}); run it again if you need it`
+          ),
+          ...(result.cwdRestored === false ? ["Could not return to the previous working directory"] : []),
+        ];
+
+        return {
+          content: [
+            {
+              type: "text",
+              text:
+                `${result.reopened ? "Reopened" : "Reconnected"} session ${session_id}` +
+                (result.replayed.length > 0 ? `, replayed: ${result.replayed.join(" → ")}` : "") +
+                `\nNow at: ${formatLocation(result.session.context)}` +
+                (notes.length > 0 ? `\n${notes.join("\n")}` : ""),
+            },
+          ],
+        };
+      }
+
+      case "terminal_interrupt": {
+        const { session_id = "default", escalate = true, grace_ms = DEFAULT_INTERRUPT_GRACE } = args as any;
+
+        const session = sessions.get(session_id);
+        if (!session) {
+          throw new Error(`Session ${session_id} not found`);
+        }
+
+        console.error(`[ShellKeeper] Interrupting session ${session_id}: ${session.lastCommand}`);
+        const result = await interruptSession(session, {
+          escalate,
+          graceMs: Math.min(Math.max(grace_ms, 200), 30000),
+          schedule: (task) => runQueued(session_id, "(interrupt)", { front: true }, task),
+        });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Session ${session_id} (last command: ${result.command || "(none)"}): ${describeInterrupt(result)}`,
+            },
+          ],
+          isError: result.stoppedBy === null,
+        };
+      }
+
+      case "terminal_close_session": {
+        const { session_id } = args as any;
+
+        const session = sessions.get(session_id);
+        if (!session) {
+          throw new Error(`Session ${session_id} not found`);
+        }
+
+        console.error(`[ShellKeeper] Closing session: ${session_id}`);
+        audit("session_close", session);
+        sessions.delete(session_id);
+        session.ptyProcess.kill();
+        const dropped = clearQueue(session_id, "was closed");
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Closed session: ${session_id}${dropped > 0 ? ` (cancelled ${dropped} queued call(s))` : ""}`,
+            },
+          ],
+        };
+      }
+
+      case "terminal_get_buffer": {
+        const {
+          session_id = "default",
+          clean = true,
+          last_n_lines,
+          since_command,
+          command_index,
+          history = false,
+        } = args as any;
+
+        const session = sessions.get(session_id);
+        if (!session) {
+          throw new Error(`Session ${session_id} not found`);
+        }
+
+        if (history) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Command history for session ${session_id}:\n${formatHistory(session.history)}`,
+              },
+            ],
+          };
+        }
+
+        let slice = readScrollback(session.scrollback);
+        if (command_index !== undefined) {
+          const record = findCommand(session.history, command_index);
+          slice = readScrollback(session.scrollback, record.startOffset, record.endOffset ?? undefined);
+        } else if (since_command !== undefined) {
+          const record = findCommand(session.history, since_command);
+          slice = readScrollback(session.scrollback, record.startOffset);
+        }
+
+        let buffer = clean ? cleanOutput(slice.text) : slice.text;
+        if (last_n_lines) {
+          buffer = buffer.split("\n").slice(-Math.max(1, last_n_lines)).join("\n");
+        } else {
+          buffer = truncateHeadTail(buffer, DEFAULT_MAX_OUTPUT_BYTES, null).text;
+        }
+        if (slice.dropped) {
+          buffer = `(earlier output was dropped from the scrollback)\n${buffer}`;
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: buffer || "(Empty buffer)",
+            },
+          ],
+        };
+      }
+
+      case "terminal_screenshot": {
+        const { session_id = "default", cursor = true, colors = false } = args as any;
+
+        const session = sessions.get(session_id);
+        if (!session) {
+          throw new Error(`Session ${session_id} not found`);
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: await captureScreen(session, { cursor, colors }),
             },
-          },
-          required: ["remote_path", "local_path"],
-        },
-      },
-    ],
-  };
-});
+          ],
+        };
+      }
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
+      case "terminal_read_output": {
+        const { output_id, stream = "stdout", start_line, end_line, grep, flags = "", context = 0 } = args as any;
 
-  try {
-    switch (name) {
-      case "terminal_execute": {
-        const { command, session_id = "default", timeout = 30000 } = args as any;
+        const output = findOutput(output_id);
 
-        const validTimeout = Math.min(Math.max(timeout, 1000), 120000);
+        return {
+          content: [
+            {
+              type: "text",
+              text: readOutput(output, {
+                stream,
+                startLine: start_line,
+                endLine: end_line,
+                grep,
+                flags,
+                context,
+              }),
+            },
+          ],
+        };
+      }
+
+      case "terminal_upload_file": {
+        const {
+          local_path,
+          remote_path,
+          session_id = "default",
+          timeout = FILE_TRANSFER_TIMEOUT,
+          resume = true,
+          compress = true,
+          include,
+          exclude,
+          dry_run = false,
+        } = args as any;
+
+        const validTimeout = Math.min(timeout, MAX_FILE_TRANSFER_TIMEOUT);
 
         let session = sessions.get(session_id);
         if (!session) {
-          console.error(`[ShellKeeper] Creating new session: ${session_id}`);
+          console.error(`[ShellKeeper] Creating new session for upload: ${session_id}`);
           session = createSession(session_id);
           await sleep(500);
         }
 
-        if (!session.isReady) {
+        console.error(`[ShellKeeper] Uploading file in session ${session_id}: ${local_path} -> ${remote_path}`);
+        const startedAt = Date.now();
+        let result: PathTransferResult;
+        try {
+          result = await uploadPath(session, local_path, remote_path, {
+            timeout: validTimeout,
+            resume,
+            compress,
+            include,
+            exclude,
+            dryRun: dry_run,
+            onProgress: progressReporter(request),
+          });
+        } catch (error: any) {
+          audit("upload", session, { local_path, remote_path, status: "error", duration_ms: Date.now() - startedAt, error: error.message });
+          throw error;
+        }
+        audit("upload", session, {
+          local_path,
+          remote_path,
+          bytes: result.bytes ?? undefined,
+          dry_run: dry_run || undefined,
+          duration_ms: Date.now() - startedAt,
+        });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: result.text,
+            },
+          ],
+        };
+      }
+
+      case "terminal_download_file": {
+        const {
+          remote_path,
+          local_path,
+          session_id = "default",
+          timeout = FILE_TRANSFER_TIMEOUT,
+          resume = true,
+          compress = true,
+          include,
+          exclude,
+          dry_run = false,
+        } = args as any;
+
+        const validTimeout = Math.min(timeout, MAX_FILE_TRANSFER_TIMEOUT);
+
+        let session = sessions.get(session_id);
+        if (!session) {
           throw new Error(
-            `Session ${session_id} is busy executing: ${session.lastCommand}. ` +
-            `Please wait or use a different session.`
+            `Session ${session_id} not found. Create a session first or connect to a server.`
           );
         }
 
-        console.error(`[ShellKeeper] Executing in session ${session_id}: ${command}`);
-        const output = await executeCommand(session, command, validTimeout);
+        console.error(`[ShellKeeper] Downloading file in session ${session_id}: ${remote_path} -> ${local_path}`);
+        const startedAt = Date.now();
+        let result: PathTransferResult;
+        try {
+          result = await downloadPath(session, remote_path, local_path, {
+            timeout: validTimeout,
+            resume,
+            compress,
+            include,
+            exclude,
+            dryRun: dry_run,
+            onProgress: progressReporter(request),
+          });
+        } catch (error: any) {
+          audit("download", session, { local_path, remote_path, status: "error", duration_ms: Date.now() - startedAt, error: error.message });
+          throw error;
+        }
+        audit("download", session, {
+          local_path,
+          remote_path,
+          bytes: result.bytes ?? undefined,
+          dry_run: dry_run || undefined,
+          duration_ms: Date.now() - startedAt,
+        });
 
         return {
           content: [
             {
               type: "text",
-              text: output || "(Command executed successfully with no output)",
+              text: result.text,
             },
           ],
         };
       }
 
-      case "terminal_new_session": {
-        const { session_id, shell } = args as any;
+      case "terminal_read_file": {
+        const { remote_path, start_line, end_line, max_bytes = DEFAULT_READ_BYTES, session_id = "default" } = args as any;
 
-        if (sessions.has(session_id)) {
+        const session = sessions.get(session_id);
+        if (!session) {
           throw new Error(
-            `Session ${session_id} already exists. ` +
-            `Use terminal_close_session first if you want to recreate it.`
+            `Session ${session_id} not found. Create a session first or connect to a server.`
           );
         }
 
-        console.error(`[ShellKeeper] Creating new session: ${session_id}`);
-        createSession(session_id, shell);
-        await sleep(500);
+        console.error(`[ShellKeeper] Reading file in session ${session_id}: ${remote_path}`);
+        const startedAt = Date.now();
+        let result: string;
+        try {
+          result = await readRemoteFile(session, remote_path, {
+            startLine: start_line,
+            endLine: end_line,
+            maxBytes: max_bytes,
+          });
+        } catch (error: any) {
+          audit("read_file", session, { remote_path, status: "error", duration_ms: Date.now() - startedAt, error: error.message });
+          throw error;
+        }
+        audit("read_file", session, { remote_path, duration_ms: Date.now() - startedAt });
 
         return {
           content: [
             {
               type: "text",
-              text: `Created new terminal session: ${session_id}${shell ? ` (shell: ${shell})` : ""}`,
+              text: result,
             },
           ],
         };
       }
 
-      case "terminal_list_sessions": {
-        const sessionList = Array.from(sessions.entries()).map(([id, session]) => ({
-          id,
-          ready: session.isReady,
-          lastCommand: session.lastCommand || "(none)",
-          createdAt: session.createdAt.toISOString(),
-          uptime: Math.floor((Date.now() - session.createdAt.getTime()) / 1000),
-        }));
+      case "terminal_write_file": {
+        const {
+          remote_path,
+          content,
+          create_dirs = false,
+          mode,
+          backup = false,
+          allow_redacted = false,
+          session_id = "default",
+        } = args as any;
 
-        if (sessionList.length === 0) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: "No active sessions",
-              },
-            ],
-          };
+        const session = sessions.get(session_id);
+        if (!session) {
+          throw new Error(
+            `Session ${session_id} not found. Create a session first or connect to a server.`
+          );
         }
 
-        const formatted = sessionList
-          .map(
-            (s) =>
-              `  • ${s.id}\n` +
-              `    Status: ${s.ready ? "✓ ready" : "⏳ busy"}\n` +
-              `    Last command: ${s.lastCommand}\n` +
-              `    Uptime: ${s.uptime}s`
-          )
-          .join("\n\n");
+        console.error(`[ShellKeeper] Writing file in session ${session_id}: ${remote_path}`);
+        const startedAt = Date.now();
+        let result: string;
+        try {
+          result = await writeRemoteFile(session, remote_path, content, {
+            createDirs: create_dirs,
+            mode,
+            backup,
+            allowRedacted: allow_redacted,
+          });
+        } catch (error: any) {
+          audit("write_file", session, { remote_path, status: "error", duration_ms: Date.now() - startedAt, error: error.message });
+          throw error;
+        }
+        audit("write_file", session, {
+          remote_path,
+          bytes: Buffer.byteLength(content),
+          duration_ms: Date.now() - startedAt,
+        });
 
         return {
           content: [
             {
               type: "text",
-              text: `Active sessions (${sessionList.length}):\n\n${formatted}`,
+              text: result,
             },
           ],
         };
       }
 
-      case "terminal_close_session": {
-        const { session_id } = args as any;
+      case "terminal_apply_patch": {
+        const { remote_path, patch, dry_run = false, backup = true, allow_redacted = false, session_id = "default" } = args as any;
 
         const session = sessions.get(session_id);
         if (!session) {
-          throw new Error(`Session ${session_id} not found`);
+          throw new Error(
+            `Session ${session_id} not found. Create a session first or connect to a server.`
+          );
         }
 
-        console.error(`[ShellKeeper] Closing session: ${session_id}`);
-        session.ptyProcess.kill();
-        sessions.delete(session_id);
+        console.error(`[ShellKeeper] Patching file in session ${session_id}: ${remote_path}`);
+        const startedAt = Date.now();
+        let result: string;
+        try {
+          result = await patchRemoteFile(session, remote_path, patch, { dryRun: dry_run, backup, allowRedacted: allow_redacted });
+        } catch (error: any) {
+          audit("patch_file", session, { remote_path, status: "error", duration_ms: Date.now() - startedAt, error: error.message });
+          throw error;
+        }
+        audit("patch_file", session, {
+          remote_path,
+          dry_run: dry_run || undefined,
+          duration_ms: Date.now() - startedAt,
+        });
 
         return {
           content: [
             {
               type: "text",
-              text: `Closed session: ${session_id}`,
+              text: result,
             },
           ],
         };
       }
 
-      case "terminal_get_buffer": {
-        const { session_id = "default", clean = true } = args as any;
+      case "terminal_list_dir": {
+        const { remote_path = ".", depth = 1, include, exclude, limit = DEFAULT_LIST_LIMIT, session_id = "default" } = args as any;
 
         const session = sessions.get(session_id);
         if (!session) {
-          throw new Error(`Session ${session_id} not found`);
+          throw new Error(
+            `Session ${session_id} not found. Create a session first or connect to a server.`
+          );
         }
 
-        const buffer = clean ? cleanOutput(session.outputBuffer) : session.outputBuffer;
+        const listing = await listRemoteDir(session, remote_path, { depth, include, exclude, limit });
 
         return {
           content: [
             {
               type: "text",
-              text: buffer || "(Empty buffer)",
+              text: JSON.stringify(listing, null, 2),
             },
           ],
         };
       }
 
-      case "terminal_upload_file": {
-        const { local_path, remote_path, session_id = "default", timeout = FILE_TRANSFER_TIMEOUT } = args as any;
+      case "terminal_stat": {
+        const { remote_path, session_id = "default" } = args as any;
+
+        const session = sessions.get(session_id);
+        if (!session) {
+          throw new Error(
+            `Session ${session_id} not found. Create a session first or connect to a server.`
+          );
+        }
 
-        const validTimeout = Math.min(timeout, FILE_TRANSFER_TIMEOUT);
+        const entry = await statRemote(session, remote_path);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(entry ? { exists: true, ...entry } : { name: remote_path, exists: false }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case "terminal_start_job": {
+        const { command, session_id = "default", confirm_token } = args as any;
 
         let session = sessions.get(session_id);
         if (!session) {
-          console.error(`[ShellKeeper] Creating new session for upload: ${session_id}`);
+          console.error(`[ShellKeeper] Creating new session for job: ${session_id}`);
           session = createSession(session_id);
           await sleep(500);
         }
 
-        if (!session.isReady) {
-          throw new Error(
-            `Session ${session_id} is busy executing: ${session.lastCommand}. ` +
-            `Please wait or use a different session.`
-          );
+        try {
+          enforcePolicy(session, command, confirm_token);
+        } catch (error: any) {
+          audit("job_start", session, { command, status: "denied", error: error.decision?.reason ?? error.message });
+          throw error;
         }
 
-        console.error(`[ShellKeeper] Uploading file in session ${session_id}: ${local_path} -> ${remote_path}`);
-        const result = await uploadFile(session, local_path, remote_path, validTimeout);
+        console.error(`[ShellKeeper] Starting job in session ${session_id}: ${redactSecrets(command)}`);
+        const job = await startJob(session, command);
+        audit("job_start", session, { command, job_id: job.id, pid: job.pid });
 
         return {
           content: [
             {
               type: "text",
-              text: result,
+              text: `Started background job: ${job.id}\n${formatJob(job)}`,
             },
           ],
         };
       }
 
-      case "terminal_download_file": {
-        const { remote_path, local_path, session_id = "default", timeout = FILE_TRANSFER_TIMEOUT } = args as any;
+      case "terminal_job_status": {
+        const { job_id } = args as any;
 
-        const validTimeout = Math.min(timeout, FILE_TRANSFER_TIMEOUT);
+        const { session, job } = findJob(job_id);
 
-        let session = sessions.get(session_id);
+        await refreshJobStatus(session, job);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: formatJob(job),
+            },
+          ],
+        };
+      }
+
+      case "terminal_job_output": {
+        const { job_id, offset = 0, max_bytes = MAX_JOB_OUTPUT_BYTES } = args as any;
+
+        const { session, job } = findJob(job_id);
+
+        const chunk = await readJobOutput(session, job, offset, max_bytes);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text:
+                `Job ${chunk.jobId} (${chunk.status}) bytes ${chunk.offset}-${chunk.nextOffset} of ${chunk.totalBytes}\n` +
+                `next_offset: ${chunk.nextOffset}\n\n` +
+                (chunk.output || "(No new output)"),
+            },
+          ],
+        };
+      }
+
+      case "terminal_job_wait": {
+        const { job_id, timeout = 60000 } = args as any;
+
+        const validTimeout = Math.min(Math.max(timeout, 1000), 120000);
+
+        const { session, job } = findJob(job_id);
+
+        await waitForJob(session, job, validTimeout);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text:
+                (job.status === "running" ? `Job still running after ${validTimeout}ms\n` : "") +
+                formatJob(job),
+            },
+          ],
+        };
+      }
+
+      case "terminal_send_input": {
+        const { session_id = "default", input = "", keys = [], confirm_token } = args as any;
+
+        const session = sessions.get(session_id);
         if (!session) {
-          throw new Error(
-            `Session ${session_id} not found. Create a session first or connect to a server.`
-          );
+          throw new Error(`Session ${session_id} not found`);
+        }
+
+        if (!input && keys.length === 0) {
+          throw new Error("Provide input text, keys, or both");
+        }
+
+        const lines = submittedLines(session, input, keys);
+        const submitted = lines.length > 0;
+        if (submitted) {
+          try {
+            enforcePolicy(session, lines.join("\n"), confirm_token);
+          } catch (error: any) {
+            audit("input", session, { command: lines.join("\n"), keys, status: "denied", error: error.decision?.reason ?? error.message });
+            throw error;
+          }
+        }
+
+        console.error(`[ShellKeeper] Sending input to session ${session_id}: ${keys.length > 0 ? `[${keys.join(", ")}]` : ""}`);
+        const written = sendInput(session, input, keys);
+        audit("input", session, {
+          command: submitted ? lines.join("\n") : undefined,
+          keys,
+          input_length: input.length,
+          submitted,
+        });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Sent ${written} character(s) to session ${session_id}`,
+            },
+          ],
+        };
+      }
+
+      case "terminal_expect": {
+        const { session_id = "default", pattern, flags = "", timeout = 10000 } = args as any;
+
+        const validTimeout = Math.min(Math.max(timeout, 100), 120000);
+
+        const session = sessions.get(session_id);
+        if (!session) {
+          throw new Error(`Session ${session_id} not found`);
         }
 
-        if (!session.isReady) {
+        const result = await expectOutput(session, pattern, validTimeout, flags);
+
+        if (!result.matched) {
           throw new Error(
-            `Session ${session_id} is busy executing: ${session.lastCommand}. ` +
-            `Please wait or use a different session.`
+            `Pattern /${pattern}/${flags} not found within ${validTimeout}ms\n` +
+            `Output so far: ${result.output || "(no output)"}`
           );
         }
 
-        console.error(`[ShellKeeper] Downloading file in session ${session_id}: ${remote_path} -> ${local_path}`);
-        const result = await downloadFile(session, remote_path, local_path, validTimeout);
+        return {
+          content: [
+            {
+              type: "text",
+              text:
+                `Matched: ${result.match}\n` +
+                (result.groups.length > 0 ? `Groups: ${JSON.stringify(result.groups)}\n` : "") +
+                `\n${result.output}`,
+            },
+          ],
+        };
+      }
+
+      case "terminal_ssh_connect": {
+        const {
+          session_id,
+          host,
+          user,
+          port,
+          identity_file,
+          agent_forwarding = false,
+          jump_hosts = [],
+          known_hosts_policy = "accept-new",
+          ssh_options = [],
+          timeout = SSH_CONNECT_TIMEOUT,
+          backend,
+        } = args as any;
+
+        const validTimeout = Math.min(Math.max(timeout, 1000), 120000);
+
+        const target: SshTarget = {
+          host,
+          user,
+          port,
+          identityFile: identity_file,
+          agentForwarding: agent_forwarding,
+          jumpHosts: jump_hosts,
+          knownHostsPolicy: known_hosts_policy,
+          options: ssh_options,
+        };
+
+        console.error(`[ShellKeeper] Connecting session ${session_id} to ${formatSshTarget(target)}`);
+
+        try {
+          await connectSsh(session_id, target, validTimeout, { backend });
+        } catch (error) {
+          if (error instanceof SshConnectionError) {
+            console.error(`[ShellKeeper] ${error.message}`);
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(error.toJSON(), null, 2),
+                },
+              ],
+              isError: true,
+            };
+          }
+          throw error;
+        }
 
         return {
           content: [
             {
               type: "text",
-              text: result,
+              text: `Connected session ${session_id} to ${formatSshTarget(target)}`,
+            },
+          ],
+        };
+      }
+
+      case "terminal_list_profiles": {
+        const profiles = Object.entries(getConfig().profiles);
+        const source = getConfigPath();
+
+        if (profiles.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: source
+                  ? `No profiles defined in ${source}`
+                  : `No config file found. Searched: ${configSearchPaths().join(", ")}`,
+              },
+            ],
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text:
+                `Profiles (${profiles.length}) from ${source}:\n\n` +
+                profiles.map(([profileName, profile]) => formatProfile(profileName, profile)).join("\n\n"),
+            },
+          ],
+        };
+      }
+
+      case "terminal_audit_query": {
+        const { session_id, host, event, since, until, command_contains, limit = 50 } = args as any;
+
+        const parseTime = (value: string | undefined, field: string) => {
+          if (!value) {
+            return undefined;
+          }
+          const date = new Date(value);
+          if (isNaN(date.getTime())) {
+            throw new Error(`Invalid ${field} timestamp: ${value}`);
+          }
+          return date;
+        };
+
+        const auditPath = getAuditPath();
+        if (!auditPath) {
+          throw new Error("Audit logging is disabled in the config file");
+        }
+
+        const records = queryAudit({
+          sessionId: session_id,
+          host,
+          event,
+          since: parseTime(since, "since"),
+          until: parseTime(until, "until"),
+          contains: command_contains,
+          limit: Math.min(Math.max(limit, 1), 1000),
+        });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text:
+                records.length === 0
+                  ? `No matching audit records in ${auditPath}`
+                  : records.map((record) => JSON.stringify(record)).join("\n"),
             },
           ],
         };
@@ -715,23 +2712,18 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         throw new Error(`Unknown tool: ${name}`);
     }
   } catch (error: any) {
-    console.error(`[ShellKeeper] Error:`, error);
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Error: ${error.message}`,
-        },
-      ],
-      isError: true,
-    };
+    return errorResult(error);
   }
-});
+}
+
+server.setRequestHandler(CallToolRequestSchema, async (request) => redactToolResult(await callTool(request)));
 
 process.on("SIGINT", () => {
   console.error("[ShellKeeper] Shutting down...");
   sessions.forEach((session) => {
-    session.ptyProcess.kill();
+    if (session.backend === "pty" && !isDetachedMode()) {
+      session.ptyProcess.kill();
+    }
   });
   process.exit(0);
 });
@@ -739,12 +2731,35 @@ process.on("SIGINT", () => {
 process.on("SIGTERM", () => {
   console.error("[ShellKeeper] Shutting down...");
   sessions.forEach((session) => {
-    session.ptyProcess.kill();
+    if (session.backend === "pty" && !isDetachedMode()) {
+      session.ptyProcess.kill();
+    }
   });
   process.exit(0);
 });
 
 async function main() {
+  loadConfig();
+  const configFile = getConfigPath();
+  if (configFile) {
+    console.error(`[ShellKeeper] Loaded ${Object.keys(getConfig().profiles).length} profile(s) from ${configFile}`);
+  }
+
+  if (process.argv.includes("--daemon")) {
+    await runDaemon();
+    return;
+  }
+
+  const restored = restoreTmuxSessions();
+  if (isDetachedMode()) {
+    await connectDaemon();
+    restored.push(...(await restoreDetachedSessions()));
+  }
+  if (restored.length > 0) {
+    console.error(`[ShellKeeper] Reattached ${restored.length} session(s): ${restored.map((s) => s.id).join(", ")}`);
+    await Promise.all(restored.map((session) => refreshRestoredSession(session)));
+  }
+
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error("[ShellKeeper] MCP Server started successfully");
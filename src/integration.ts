@@ -0,0 +1,345 @@
+/**
+ * Copyright (c) 2025 tranhuucanh39@gmail.com
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+/**
+ * Shell integration protocol, modelled on the OSC 133 semantic prompt sequences.
+ *
+ * Every command is written as two lines: the command itself prefixed with a
+ * command-start sequence, and a typed-ahead trailer that reports the exit code,
+ * the shell family, cwd and the identity the current shell recorded when the
+ * integration was installed (user, host, OS, shell, pid). Markers are produced
+ * from escapes the shell expands itself (printf octal escapes in POSIX shells,
+ * \e in fish, [char]27 in PowerShell), so the echoed input never contains the
+ * real ESC/BEL bytes the parser looks for. The trailer is read by whichever
+ * shell owns the terminal next, which keeps the protocol working across ssh
+ * hops. Commands that may hand the terminal to another shell are followed by a
+ * probe line that prints the family of the shell reading it, so a trailer in
+ * the right syntax can be sent when the family changed. Shells that do not
+ * report the integration flag get a prompt hook installed (PROMPT_COMMAND,
+ * precmd, PS1, a fish_prompt handler or a wrapped PowerShell prompt) that marks
+ * where the prompt starts, which is where command output ends.
+ */
+
+import { SHELL_FAMILIES, ShellFamily } from "./quoting.js";
+
+export const OSC_PREFIX = "\x1b]133;";
+export const OSC_SUFFIX = "\x07";
+
+export const INTEGRATION_FLAG = "__SK_SI";
+export const CONTEXT_VAR = "__SK_CTX";
+
+const SHELL_CHANGING_COMMAND =
+  /^(\s*[A-Za-z_][A-Za-z0-9_]*=\S*)*\s*(\S*\/)?(ssh|mosh|su|exec|exit|logout|sh|bash|zsh|dash|ksh|fish|pwsh|powershell|sudo\s+(\S+\s+)*(-\w*[is]\w*|su)|doas\s+(\S+\s+)*(-s|su)|(docker|podman|kubectl)\s+(\S+\s+)*(exec|run|attach))(\s|$)/;
+
+export interface CommandMarkers {
+  id: string;
+  commandLine: string;
+  trailerLine: string;
+  probeLine: string | null;
+}
+
+export interface ParsedCommandOutput {
+  complete: boolean;
+  exitCode: number;
+  cwd: string | null;
+  context: string | null;
+  integrated: boolean;
+  family: ShellFamily | null;
+  stdout: string;
+  stderr: string | null;
+}
+
+let markerCounter = 0;
+
+export function nextMarkerId(): string {
+  markerCounter += 1;
+  return `sk${Date.now().toString(36)}${markerCounter}`;
+}
+
+export function mayChangeShell(command: string): boolean {
+  return command.split(/[;&|\n]+/).some((part) => SHELL_CHANGING_COMMAND.test(part)) || /(^|\n)~\.$/.test(command.trim());
+}
+
+export function noopCommand(family: ShellFamily): string {
+  switch (family) {
+    case "fish":
+      return "true";
+    case "powershell":
+      return "$null";
+    default:
+      return ":";
+  }
+}
+
+function printfMarker(body: string, args: string = ""): string {
+  return `printf '\\033]133;${body}\\007'${args}`;
+}
+
+function fishMarker(body: string): string {
+  return `printf '%s' \\e']133;'${body}\\a`;
+}
+
+function powershellMarker(body: string): string {
+  return `[Console]::Write("$([char]27)]133;${body}$([char]7)")`;
+}
+
+function posixMarkers(id: string, command: string, stderrFile: string | null, exitCode: string): [string, string] {
+  const commandLine = stderrFile
+    ? ` ${printfMarker(`C;${id}`)}; { ${command}\n} 2>${stderrFile}`
+    : ` ${printfMarker(`C;${id}`)}; ${command}`;
+
+  const stderrDump = stderrFile
+    ? ` ${printfMarker(`S;${id}`)}; cat ${stderrFile} 2>/dev/null; rm -f ${stderrFile};`
+    : "";
+
+  const trailerLine =
+    ` __sk_ec=${exitCode};${stderrDump} ` +
+    printfMarker(
+      `D;${id};%s;%s;posix;%s;%s`,
+      ` "$__sk_ec" "\${${INTEGRATION_FLAG}:-0}" "\${${CONTEXT_VAR}:-}" "$PWD"`
+    );
+
+  return [commandLine, trailerLine];
+}
+
+function fishMarkers(id: string, command: string, stderrFile: string | null, exitCode: string): [string, string] {
+  const commandLine = stderrFile
+    ? ` ${fishMarker(`'C;${id}'`)}; begin; ${command}\nend 2>${stderrFile}`
+    : ` ${fishMarker(`'C;${id}'`)}; ${command}`;
+
+  const stderrDump = stderrFile
+    ? ` ${fishMarker(`'S;${id}'`)}; cat ${stderrFile} 2>/dev/null; rm -f ${stderrFile};`
+    : "";
+
+  const trailerLine =
+    ` set -g __sk_ec ${exitCode};${stderrDump} ` +
+    fishMarker(`'D;${id};'$__sk_ec';'"$${INTEGRATION_FLAG}"';fish;'"$${CONTEXT_VAR}"';'"$PWD"`);
+
+  return [commandLine, trailerLine];
+}
+
+function powershellMarkers(id: string, command: string, stderrFile: string | null, exitCode: string): [string, string] {
+  const errorFile = stderrFile ? `(Join-Path ([IO.Path]::GetTempPath()) '${stderrFile.split("/").pop()}')` : "";
+  const commandLine = stderrFile
+    ? ` ${powershellMarker(`C;${id}`)}; & { ${command}\n} 2>${errorFile}`
+    : ` ${powershellMarker(`C;${id}`)}; ${command}`;
+
+  const stderrDump = stderrFile
+    ? ` ${powershellMarker(`S;${id}`)}; Get-Content -Raw ${errorFile} -ErrorAction SilentlyContinue; ` +
+      `Remove-Item ${errorFile} -ErrorAction SilentlyContinue;`
+    : "";
+
+  const trailerLine =
+    ` $global:__sk_ec = ${exitCode};${stderrDump} ` +
+    powershellMarker(`D;${id};$global:__sk_ec;$global:${INTEGRATION_FLAG};powershell;$global:${CONTEXT_VAR};$PWD`);
+
+  return [commandLine, trailerLine];
+}
+
+const EXIT_STATUS: Record<ShellFamily, string> = {
+  posix: "$?",
+  fish: "$status",
+  powershell: "$(if ($?) { 0 } elseif ($LASTEXITCODE) { $LASTEXITCODE } else { 1 })",
+};
+
+const FAMILY_MARKERS: Record<ShellFamily, typeof posixMarkers> = {
+  posix: posixMarkers,
+  fish: fishMarkers,
+  powershell: powershellMarkers,
+};
+
+export function buildCommandMarkers(
+  id: string,
+  command: string,
+  stderrFile: string | null = null,
+  family: ShellFamily = "posix",
+  withProbe: boolean = mayChangeShell(command)
+): CommandMarkers {
+  const [commandLine, trailerLine] = FAMILY_MARKERS[family](id, command, stderrFile, EXIT_STATUS[family]);
+  // Valid in all three families: prints "<id>F;<fish pid>;<PowerShell version table>".
+  const probeLine = withProbe ? ` echo "${id}F;$fish_pid;$PSVersionTable"` : null;
+
+  return { id, commandLine, trailerLine, probeLine };
+}
+
+/**
+ * Trailer for a shell that took over the terminal after the command was sent.
+ * It cannot know the command's exit status; the command handed the terminal
+ * over, so it reports success.
+ */
+export function handoverTrailer(markers: CommandMarkers, family: ShellFamily): string {
+  return FAMILY_MARKERS[family](markers.id, "", null, "0")[1];
+}
+
+export function probedShellFamily(buffer: string, markers: CommandMarkers): ShellFamily | null {
+  if (!markers.probeLine) {
+    return null;
+  }
+  const match = stripTerminalControl(buffer).match(new RegExp(`^${escapeRegExp(markers.id)}F;(\\d*);(\\S*)\\s*$`, "m"));
+  if (!match) {
+    return null;
+  }
+  return match[1] ? "fish" : match[2] ? "powershell" : "posix";
+}
+
+export function shellIntegrationScript(family: ShellFamily = "posix"): string {
+  if (family === "fish") {
+    return (
+      ` function __sk_prompt --on-event fish_prompt; printf '%s' \\e']133;D;'$status\\a\\e']133;A'\\a; end; ` +
+      `set -g ${INTEGRATION_FLAG} 1; ` +
+      `set -g ${CONTEXT_VAR} (id -un 2>/dev/null; or whoami)'|'(uname -n)'|'(uname -s)'|fish|'$fish_pid'|'"$SSH_CONNECTION"`
+    );
+  }
+
+  if (family === "powershell") {
+    return (
+      ` if (-not $global:${INTEGRATION_FLAG}) { $global:__sk_prompt = $function:prompt; ` +
+      `function global:prompt { $ec = if ($?) { 0 } else { 1 }; ` +
+      `[Console]::Write("$([char]27)]133;D;$ec$([char]7)$([char]27)]133;A$([char]7)"); & $global:__sk_prompt } }; ` +
+      `$global:${INTEGRATION_FLAG} = 1; ` +
+      `$global:${CONTEXT_VAR} = "$([Environment]::UserName)|$([Environment]::MachineName)|` +
+      `$([Environment]::OSVersion.Platform)|$((Get-Process -Id $PID).ProcessName)|$PID|$env:SSH_CONNECTION"`
+    );
+  }
+
+  const bash =
+    `__sk_prompt() { local ec=$?; printf '\\033]133;D;%s\\007\\033]133;A\\007' "$ec"; return $ec; }; ` +
+    `case ";\${PROMPT_COMMAND:-};" in *";__sk_prompt;"*) ;; ` +
+    `*) PROMPT_COMMAND="__sk_prompt\${PROMPT_COMMAND:+;$PROMPT_COMMAND}" ;; esac`;
+
+  const zsh =
+    `__sk_precmd() { local ec=$?; printf '\\033]133;D;%s\\007\\033]133;A\\007' "$ec"; }; ` +
+    `precmd_functions=(\${precmd_functions:#__sk_precmd} __sk_precmd)`;
+
+  const sh =
+    `PS1="$(printf '\\033]133;D;')\\$?$(printf '\\007\\033]133;A\\007')\${PS1:-\\$ }"`;
+
+  const context =
+    `${CONTEXT_VAR}="$( (id -un || whoami) 2>/dev/null)|$(uname -n 2>/dev/null)|$(uname -s 2>/dev/null)|` +
+    `\${0##*/}|$$|\${SSH_CONNECTION:-}"`;
+
+  return (
+    ` if [ -n "\${BASH_VERSION:-}" ]; then eval '${bash.replace(/'/g, `'\\''`)}'; ` +
+    `elif [ -n "\${ZSH_VERSION:-}" ]; then eval '${zsh.replace(/'/g, `'\\''`)}'; ` +
+    `else eval '${sh.replace(/'/g, `'\\''`)}'; fi; ${INTEGRATION_FLAG}=1; ${context}`
+  );
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export function stripTerminalControl(output: string): string {
+  const text = output
+    .replace(/\x1b\][^\x07\x1b]*(\x07|\x1b\\)/g, "")
+    .replace(/\x1b\[[0-9;?]*[ -\/]*[@-~]/g, "")
+    .replace(/\x1b[()][0-9A-Za-z]/g, "")
+    .replace(/\x1b[><=78DEHMc]/g, "")
+    .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f\x7f]/g, "")
+    .replace(/\r+\n/g, "\n");
+
+  return text
+    .split("\n")
+    .map((line) => {
+      const segments = line.split("\r");
+      for (let i = segments.length - 1; i >= 0; i--) {
+        if (segments[i] !== "") return segments[i];
+      }
+      return "";
+    })
+    .join("\n");
+}
+
+function trimBlankLines(text: string): string {
+  return text.replace(/^(\s*\n)+/, "").replace(/\s+$/, "");
+}
+
+function removeEchoedLine(region: string, echoed: string): string {
+  const marker = echoed.trim();
+  let result = region;
+  let idx = result.indexOf(marker);
+
+  while (idx !== -1) {
+    const lineStart = result.lastIndexOf("\n", idx) + 1;
+    const nextNewline = result.indexOf("\n", idx + marker.length);
+    const lineEnd = nextNewline === -1 ? result.length : nextNewline + 1;
+    result = result.substring(0, lineStart) + result.substring(lineEnd);
+    idx = result.indexOf(marker);
+  }
+
+  return result;
+}
+
+export function parseCommandOutput(buffer: string, markers: CommandMarkers): ParsedCommandOutput {
+  const id = escapeRegExp(markers.id);
+  const startSeq = `${OSC_PREFIX}C;${markers.id}${OSC_SUFFIX}`;
+  const stderrSeq = `${OSC_PREFIX}S;${markers.id}${OSC_SUFFIX}`;
+  const endPattern = new RegExp(`\\x1b\\]133;D;${id};(\\d+);(\\d*);([a-z]*);([^;\\x07]*);([^\\x07]*)\\x07`);
+
+  const endMatch = buffer.match(endPattern);
+  if (!endMatch || endMatch.index === undefined) {
+    return {
+      complete: false,
+      exitCode: 0,
+      cwd: null,
+      context: null,
+      integrated: false,
+      family: null,
+      stdout: "",
+      stderr: null,
+    };
+  }
+
+  const startIdx = buffer.indexOf(startSeq);
+  const regionStart = startIdx === -1 ? 0 : startIdx + startSeq.length;
+  let region = buffer.substring(regionStart, endMatch.index);
+
+  let stderr: string | null = null;
+  const stderrIdx = region.indexOf(stderrSeq);
+  if (stderrIdx !== -1) {
+    stderr = region.substring(stderrIdx + stderrSeq.length);
+    region = region.substring(0, stderrIdx);
+  }
+
+  const promptIdx = region.search(/\x1b\]133;[AD][;\x07]/);
+  if (promptIdx !== -1) {
+    region = region.substring(0, promptIdx);
+  }
+
+  let stdout = stripTerminalControl(region);
+  stdout = removeEchoedLine(stdout, markers.trailerLine);
+  if (markers.probeLine) {
+    stdout = removeEchoedLine(stdout, markers.probeLine);
+  }
+  if (startIdx === -1) {
+    stdout = removeEchoedLine(stdout, markers.commandLine.split("\n")[0]);
+  }
+
+  return {
+    complete: true,
+    exitCode: parseInt(endMatch[1], 10),
+    cwd: endMatch[5] || null,
+    context: endMatch[4] || null,
+    integrated: endMatch[2] === "1",
+    family: SHELL_FAMILIES.find((family) => family === endMatch[3]) ?? null,
+    stdout: trimBlankLines(stdout),
+    stderr: stderr === null ? null : trimBlankLines(stripTerminalControl(stderr)),
+  };
+}
+
+export function partialCommandOutput(buffer: string, markers: CommandMarkers): string {
+  const startSeq = `${OSC_PREFIX}C;${markers.id}${OSC_SUFFIX}`;
+  const startIdx = buffer.indexOf(startSeq);
+  if (startIdx === -1) {
+    return "";
+  }
+  let output = removeEchoedLine(stripTerminalControl(buffer.substring(startIdx + startSeq.length)), markers.trailerLine);
+  if (markers.probeLine) {
+    output = removeEchoedLine(output, markers.probeLine);
+  }
+  return trimBlankLines(output);
+}
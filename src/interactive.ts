@@ -0,0 +1,136 @@
+/**
+ * Copyright (c) 2025 tranhuucanh39@gmail.com
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { isIntentionalExit } from "./context.js";
+import { readScrollback, scrollbackEnd } from "./scrollback.js";
+import { TerminalSession } from "./session.js";
+import { cleanOutput, sleep } from "./utils.js";
+
+export interface ExpectResult {
+  matched: boolean;
+  match: string | null;
+  groups: string[];
+  output: string;
+}
+
+const NAMED_KEYS: Record<string, string> = {
+  enter: "\r",
+  return: "\r",
+  tab: "\t",
+  space: " ",
+  backspace: "\x7f",
+  escape: "\x1b",
+  esc: "\x1b",
+  up: "\x1b[A",
+  down: "\x1b[B",
+  right: "\x1b[C",
+  left: "\x1b[D",
+  home: "\x1b[H",
+  end: "\x1b[F",
+  pageup: "\x1b[5~",
+  pagedown: "\x1b[6~",
+  insert: "\x1b[2~",
+  delete: "\x1b[3~",
+  "ctrl-\\": "\x1c",
+  "ctrl-]": "\x1d",
+  "ctrl-[": "\x1b",
+};
+
+export function resolveKey(name: string): string {
+  const normalized = name.trim().toLowerCase().replace(/^(control|ctrl|c)[-+]/, "ctrl-");
+
+  if (NAMED_KEYS[normalized] !== undefined) {
+    return NAMED_KEYS[normalized];
+  }
+
+  const ctrlMatch = normalized.match(/^ctrl-([a-z])$/);
+  if (ctrlMatch) {
+    return String.fromCharCode(ctrlMatch[1].charCodeAt(0) - 96);
+  }
+
+  throw new Error(
+    `Unknown key: ${name}. Supported keys: Enter, Tab, Space, Backspace, Escape, Up, Down, Left, Right, ` +
+    `Home, End, PageUp, PageDown, Insert, Delete, Ctrl-A through Ctrl-Z, Ctrl-\\`
+  );
+}
+
+function typeInto(line: string, sequence: string): { submitted: string[]; pending: string } {
+  const submitted: string[] = [];
+  let current = line;
+
+  for (const char of sequence.replace(/\x1b\[[0-9;?]*[ -\/]*[@-~]|\x1b./g, "")) {
+    if (char === "\r" || char === "\n" || char === "\x0f") {
+      submitted.push(current);
+      current = "";
+    } else if (char === "\x7f" || char === "\b") {
+      current = current.slice(0, -1);
+    } else if (char === "\x03" || char === "\x15") {
+      current = "";
+    } else if (char >= " " || char === "\t") {
+      current += char;
+    }
+  }
+
+  return { submitted, pending: current };
+}
+
+export function submittedLines(session: TerminalSession, text: string = "", keys: string[] = []): string[] {
+  const sequence = text + keys.map((key) => resolveKey(key)).join("");
+  return typeInto(session.pendingInput, sequence).submitted.filter((line) => line.trim());
+}
+
+export function sendInput(session: TerminalSession, text: string = "", keys: string[] = []): number {
+  const sequence = text + keys.map((key) => resolveKey(key)).join("");
+
+  session.expectOffset = scrollbackEnd(session.scrollback);
+  session.context.exitRequested ||= isIntentionalExit(text) || keys.some((key) => resolveKey(key) === "\x04");
+  session.pendingInput = typeInto(session.pendingInput, sequence).pending;
+  session.ptyProcess.write(sequence);
+
+  return sequence.length;
+}
+
+export async function expectOutput(
+  session: TerminalSession,
+  pattern: string,
+  timeout: number,
+  flags: string = ""
+): Promise<ExpectResult> {
+  const regex = new RegExp(pattern, flags.replace(/g/g, ""));
+  const startTime = Date.now();
+
+  while (true) {
+    const slice = readScrollback(session.scrollback, session.expectOffset);
+    const pending = slice.text;
+    const cleaned = pending.replace(/\x1b\[[0-9;?]*[a-zA-Z]/g, "").replace(/\r/g, "");
+    const match = cleaned.match(regex);
+
+    if (match) {
+      const rawIndex = pending.indexOf(match[0]);
+      session.expectOffset = rawIndex >= 0
+        ? slice.from + rawIndex + match[0].length
+        : scrollbackEnd(session.scrollback);
+      return {
+        matched: true,
+        match: match[0],
+        groups: match.slice(1),
+        output: cleanOutput(cleaned.substring(0, (match.index ?? 0) + match[0].length)),
+      };
+    }
+
+    if (Date.now() - startTime >= timeout) {
+      return {
+        matched: false,
+        match: null,
+        groups: [],
+        output: cleanOutput(cleaned),
+      };
+    }
+
+    await sleep(100);
+  }
+}
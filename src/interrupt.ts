@@ -0,0 +1,153 @@
+/**
+ * Copyright (c) 2025 tranhuucanh39@gmail.com
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+/**
+ * Stopping whatever runs in the foreground of a session.
+ *
+ * Ctrl-C is tried first, then Ctrl-\, then SIGKILL to the terminal's
+ * foreground process group. The last step needs the process table, so it is
+ * only available when the session is a single local shell; through ssh the
+ * foreground process is the ssh client. After each step a fresh marker
+ * command is sent, and only when it comes back is the shell considered to be
+ * at a prompt again; marker ids are unique, so late output from the stopped
+ * command cannot be mistaken for the next command's.
+ */
+
+import { execFileSync } from "child_process";
+import { audit } from "./audit.js";
+import { resyncSession, TerminalSession } from "./session.js";
+import { sleep } from "./utils.js";
+
+export type InterruptStage = "ctrl_c" | "ctrl_backslash" | "kill";
+
+export interface InterruptOptions {
+  escalate?: boolean;
+  graceMs?: number;
+  schedule?: (task: () => Promise<InterruptResult>) => Promise<InterruptResult>;
+}
+
+export interface InterruptResult {
+  command: string;
+  stoppedBy: InterruptStage | null;
+  attempted: InterruptStage[];
+  canKill: boolean;
+}
+
+export const DEFAULT_INTERRUPT_GRACE = 2000;
+
+const STAGE_KEYS: Record<Exclude<InterruptStage, "kill">, string> = {
+  ctrl_c: "\x03",
+  ctrl_backslash: "\x1c",
+};
+
+const STAGE_NAMES: Record<InterruptStage, string> = {
+  ctrl_c: "Ctrl-C",
+  ctrl_backslash: "Ctrl-\\",
+  kill: "SIGKILL to the foreground process group",
+};
+
+function localShellPid(session: TerminalSession): number | null {
+  if (process.platform === "win32" || session.target || session.context.frames.length > 1) {
+    return null;
+  }
+  return session.ptyProcess.pid || null;
+}
+
+function foregroundGroup(shellPid: number): number | null {
+  try {
+    const output = execFileSync("ps", ["-o", "tpgid=", "-p", String(shellPid)], { encoding: "utf8", timeout: 5000 });
+    const group = parseInt(output.trim(), 10);
+    return group > 0 ? group : null;
+  } catch {
+    return null;
+  }
+}
+
+async function settle(session: TerminalSession, shellPid: number | null, graceMs: number): Promise<boolean> {
+  const deadline = Date.now() + graceMs;
+  await sleep(200);
+
+  while (
+    shellPid !== null
+      ? foregroundGroup(shellPid) !== shellPid
+      : session.screen.buffer.active.type === "alternate"
+  ) {
+    if (Date.now() >= deadline) {
+      return false;
+    }
+    await sleep(100);
+  }
+
+  session.isReady = false;
+  return resyncSession(session, Math.max(deadline - Date.now(), 1000));
+}
+
+export async function interruptSession(session: TerminalSession, options: InterruptOptions = {}): Promise<InterruptResult> {
+  // Counted before the task waits for its turn, so a command still waiting for its trailer gives up the session.
+  session.interrupts++;
+  const schedule = options.schedule || ((task) => task());
+  return schedule(() => stopForeground(session, options));
+}
+
+async function stopForeground(session: TerminalSession, options: InterruptOptions): Promise<InterruptResult> {
+  const graceMs = options.graceMs || DEFAULT_INTERRUPT_GRACE;
+  const shellPid = localShellPid(session);
+  const stages: InterruptStage[] = options.escalate === false
+    ? ["ctrl_c"]
+    : shellPid !== null ? ["ctrl_c", "ctrl_backslash", "kill"] : ["ctrl_c", "ctrl_backslash"];
+  const result: InterruptResult = { command: session.lastCommand, stoppedBy: null, attempted: [], canKill: shellPid !== null };
+
+  session.isReady = false;
+
+  try {
+    for (const stage of stages) {
+      if (stage === "kill") {
+        const group = foregroundGroup(shellPid!);
+        if (group === null || group === shellPid) {
+          continue;
+        }
+        try {
+          process.kill(-group, "SIGKILL");
+        } catch (error: any) {
+          console.error(`[ShellKeeper] Could not kill process group ${group}: ${error.message}`);
+          continue;
+        }
+      } else {
+        session.ptyProcess.write(STAGE_KEYS[stage]);
+      }
+
+      result.attempted.push(stage);
+      if (await settle(session, shellPid, graceMs)) {
+        result.stoppedBy = stage;
+        break;
+      }
+    }
+  } finally {
+    session.isReady = true;
+  }
+
+  audit("interrupt", session, {
+    command: result.command,
+    status: result.stoppedBy ? "ok" : "error",
+    stopped_by: result.stoppedBy,
+  });
+  return result;
+}
+
+export function describeInterrupt(result: InterruptResult): string {
+  if (result.stoppedBy) {
+    return `Stopped with ${STAGE_NAMES[result.stoppedBy]}; the session is back at a prompt.`;
+  }
+
+  return (
+    `Could not stop it (tried ${result.attempted.map((stage) => STAGE_NAMES[stage]).join(", ") || "nothing"}). ` +
+    (result.canKill
+      ? "The session may be stuck; close it with terminal_close_session."
+      : "It runs behind ssh or a nested shell, so it cannot be killed from here; " +
+        "inspect it with terminal_screenshot, answer it with terminal_send_input, or close the session.")
+  );
+}
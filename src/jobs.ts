@@ -0,0 +1,183 @@
+/**
+ * Copyright (c) 2025 tranhuucanh39@gmail.com
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { stripTerminalControl } from "./integration.js";
+import { executeCommand, sessions, TerminalSession } from "./session.js";
+import { posixCommand, shellQuote } from "./quoting.js";
+import { runQueued } from "./queue.js";
+import { sleep } from "./utils.js";
+
+export type JobStatus = "running" | "completed" | "failed" | "lost";
+
+export interface Job {
+  id: string;
+  sessionId: string;
+  command: string;
+  pid: number | null;
+  workDir: string;
+  status: JobStatus;
+  exitCode: number | null;
+  outputBytes: number;
+  startedAt: Date;
+  finishedAt: Date | null;
+}
+
+export interface JobOutputChunk {
+  jobId: string;
+  offset: number;
+  nextOffset: number;
+  totalBytes: number;
+  output: string;
+  status: JobStatus;
+}
+
+export const MAX_JOB_OUTPUT_BYTES = 256 * 1024;
+export const JOB_POLL_INTERVAL = 1000;
+
+let jobCounter = 0;
+
+export function findJob(jobId: string): { session: TerminalSession; job: Job } {
+  for (const session of sessions.values()) {
+    const job = session.jobs.get(jobId);
+    if (job) {
+      return { session, job };
+    }
+  }
+  throw new Error(`Job ${jobId} not found. It may belong to a session that has been closed.`);
+}
+
+function saveJobs(session: TerminalSession): void {
+  session.ptyProcess.updateMeta?.({ jobs: Array.from(session.jobs.values()) });
+}
+
+export async function startJob(session: TerminalSession, command: string): Promise<Job> {
+  jobCounter += 1;
+  const id = `job_${Date.now().toString(36)}_${jobCounter}`;
+  const workDir = `/tmp/mcp_job_${id}`;
+
+  const scriptLines = command.split("\n").map((line) => shellQuote(line)).join(" ");
+  const runner = `"\${SHELL:-/bin/sh}" "$1"; echo $? > "$2"`;
+  const startCmd =
+    `mkdir -p ${workDir} && printf '%s\\n' ${scriptLines} > ${workDir}/cmd.sh && ` +
+    `(nohup sh -c ${shellQuote(runner)} sh ${workDir}/cmd.sh ${workDir}/exit ` +
+    `> ${workDir}/out 2>&1 < /dev/null & echo $! > ${workDir}/pid; echo "PID:$!")`;
+
+  const result = await executeCommand(session, posixCommand(startCmd, session.shellFamily), 10000);
+  const pidMatch = result.match(/PID:(\d+)/);
+
+  const job: Job = {
+    id,
+    sessionId: session.id,
+    command,
+    pid: pidMatch ? parseInt(pidMatch[1], 10) : null,
+    workDir,
+    status: "running",
+    exitCode: null,
+    outputBytes: 0,
+    startedAt: new Date(),
+    finishedAt: null,
+  };
+
+  session.jobs.set(id, job);
+  saveJobs(session);
+  return job;
+}
+
+export async function refreshJobStatus(session: TerminalSession, job: Job): Promise<Job> {
+  if (job.status !== "running") {
+    return job;
+  }
+
+  const statusCmd =
+    `if [ -f ${job.workDir}/exit ]; then echo "STATE:done:$(cat ${job.workDir}/exit)"; ` +
+    `elif kill -0 "$(cat ${job.workDir}/pid 2>/dev/null)" 2>/dev/null; then echo "STATE:running"; ` +
+    `else echo "STATE:lost"; fi; ` +
+    `echo "PID:$(cat ${job.workDir}/pid 2>/dev/null)"; ` +
+    `echo "SIZE:$(wc -c < ${job.workDir}/out 2>/dev/null || echo 0)"`;
+
+  const result = await executeCommand(session, posixCommand(statusCmd, session.shellFamily), 10000);
+
+  const pidMatch = result.match(/PID:(\d+)/);
+  if (pidMatch && job.pid === null) {
+    job.pid = parseInt(pidMatch[1], 10);
+  }
+
+  const sizeMatch = result.match(/SIZE:\s*(\d+)/);
+  if (sizeMatch) {
+    job.outputBytes = parseInt(sizeMatch[1], 10);
+  }
+
+  const doneMatch = result.match(/STATE:done:(\d+)/);
+  if (doneMatch) {
+    job.exitCode = parseInt(doneMatch[1], 10);
+    job.status = job.exitCode === 0 ? "completed" : "failed";
+    job.finishedAt = new Date();
+    saveJobs(session);
+  } else if (/^STATE:lost$/m.test(result)) {
+    job.status = "lost";
+    job.finishedAt = new Date();
+    saveJobs(session);
+  }
+
+  return job;
+}
+
+export async function readJobOutput(
+  session: TerminalSession,
+  job: Job,
+  offset: number = 0,
+  maxBytes: number = MAX_JOB_OUTPUT_BYTES
+): Promise<JobOutputChunk> {
+  const validOffset = Math.max(0, Math.floor(offset));
+  const validMaxBytes = Math.min(Math.max(Math.floor(maxBytes), 1), MAX_JOB_OUTPUT_BYTES);
+
+  await refreshJobStatus(session, job);
+
+  const readCmd =
+    `tail -c +${validOffset + 1} ${job.workDir}/out 2>/dev/null | head -c ${validMaxBytes} | base64 | tr -d '\\n'; echo`;
+  const encoded = await executeCommand(session, posixCommand(readCmd, session.shellFamily), 30000);
+  const buffer = Buffer.from(encoded.replace(/\s/g, ""), "base64");
+  job.outputBytes = Math.max(job.outputBytes, validOffset + buffer.length);
+
+  return {
+    jobId: job.id,
+    offset: validOffset,
+    nextOffset: validOffset + buffer.length,
+    totalBytes: job.outputBytes,
+    output: stripTerminalControl(buffer.toString("utf8")),
+    status: job.status,
+  };
+}
+
+export async function waitForJob(session: TerminalSession, job: Job, timeout: number): Promise<Job> {
+  const startTime = Date.now();
+
+  while (Date.now() - startTime < timeout) {
+    await runQueued(session.id, `(job status ${job.id})`, {}, () => refreshJobStatus(session, job));
+    if (job.status !== "running") {
+      return job;
+    }
+    await sleep(JOB_POLL_INTERVAL);
+  }
+
+  return job;
+}
+
+export function formatJob(job: Job): string {
+  const endTime = job.finishedAt ? job.finishedAt.getTime() : Date.now();
+  const elapsed = Math.floor((endTime - job.startedAt.getTime()) / 1000);
+
+  return (
+    `Job: ${job.id}\n` +
+    `Session: ${job.sessionId}\n` +
+    `Command: ${job.command}\n` +
+    `Status: ${job.status}${job.exitCode !== null ? ` (exit code ${job.exitCode})` : ""}\n` +
+    `PID: ${job.pid ?? "unknown"}\n` +
+    `Output bytes: ${job.outputBytes}\n` +
+    `Elapsed: ${elapsed}s`
+  );
+}
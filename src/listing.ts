@@ -0,0 +1,209 @@
+/**
+ * Copyright (c) 2025 tranhuucanh39@gmail.com
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { parsePrintedValue, posixCommand, printValueCommand, quotePath } from "./quoting.js";
+import { executeCommand, TerminalSession } from "./session.js";
+import { globToRegExp } from "./utils.js";
+
+export type EntryType = "file" | "dir" | "symlink" | "fifo" | "socket" | "char" | "block" | "other";
+
+export interface RemoteEntry {
+  name: string;
+  type: EntryType;
+  size: number;
+  mode: string;
+  owner: string;
+  group: string;
+  mtime: string | null;
+  target?: string;
+}
+
+export interface ListDirOptions {
+  depth?: number;
+  include?: string[];
+  exclude?: string[];
+  limit?: number;
+}
+
+export interface DirListing {
+  path: string;
+  probe: string;
+  depth: number;
+  count: number;
+  truncated: boolean;
+  entries: RemoteEntry[];
+}
+
+export const DEFAULT_LIST_LIMIT = 500;
+export const MAX_LIST_LIMIT = 5000;
+export const MAX_LIST_DEPTH = 10;
+
+const MAX_PROBE_BYTES = 2 * 1024 * 1024;
+
+const FIND_TYPES: Record<string, EntryType> = {
+  f: "file",
+  d: "dir",
+  l: "symlink",
+  p: "fifo",
+  s: "socket",
+  c: "char",
+  b: "block",
+};
+
+function entryType(probe: string, raw: string): EntryType {
+  if (probe === "find") {
+    return FIND_TYPES[raw] || "other";
+  }
+
+  const name = raw.toLowerCase();
+  if (name.includes("regular")) return "file";
+  if (name.includes("directory")) return "dir";
+  if (name.includes("symbolic")) return "symlink";
+  if (name.includes("fifo")) return "fifo";
+  if (name.includes("socket")) return "socket";
+  if (name.includes("character")) return "char";
+  if (name.includes("block")) return "block";
+  return "other";
+}
+
+function probeScript(start: string, findArgs: string): string {
+  return [
+    `s=${start}`,
+    `if find "$s" -maxdepth 0 -printf '' >/dev/null 2>&1; then m=find`,
+    `elif stat -f %z "$s" >/dev/null 2>&1; then m=bsd`,
+    `else m=stat; fi`,
+    `echo "probe=$m"`,
+    `echo "data:"`,
+    `case $m in ` +
+      `find) find "$s" ${findArgs} -printf '%y\\0%s\\0%m\\0%u\\0%g\\0%T@\\0%l\\0%p\\0' ;; ` +
+      `bsd) find "$s" ${findArgs} -exec stat -f '%HT//%z//%Lp//%Su//%Sg//%m//%N//%Y' {} + ;; ` +
+      `*) find "$s" ${findArgs} -exec stat -c '%F//%s//%a//%U//%G//%Y//%n//' {} + ;; ` +
+      `esac 2>/dev/null | head -c ${MAX_PROBE_BYTES} | base64`,
+  ].join("; ");
+}
+
+function parseProbe(output: string): { probe: string; entries: RemoteEntry[]; truncated: boolean } {
+  const probe = output.match(/^probe=(\w+)/m)?.[1] || "find";
+  const dataStart = output.indexOf("data:");
+  const raw = dataStart === -1 ? Buffer.alloc(0) : Buffer.from(output.substring(dataStart + 5).replace(/\s/g, ""), "base64");
+  const text = raw.toString("utf8");
+
+  const records: string[][] = [];
+  if (probe === "find") {
+    const fields = text.split("\0");
+    for (let i = 0; i + 8 <= fields.length; i += 8) {
+      records.push(fields.slice(i, i + 8));
+    }
+  } else {
+    for (const line of text.split("\n").filter((line) => line.includes("//"))) {
+      const fields = line.split("//");
+      if (fields.length >= 8) {
+        const [type, size, mode, owner, group, mtime, name, ...target] = fields;
+        records.push([type, size, mode, owner, group, mtime, target.join("//"), name]);
+      }
+    }
+  }
+
+  const entries = records.map(([type, size, mode, owner, group, mtime, target, name]) => {
+    const seconds = parseFloat(mtime);
+    const entry: RemoteEntry = {
+      name,
+      type: entryType(probe, type),
+      size: parseInt(size, 10) || 0,
+      mode: mode.padStart(4, "0"),
+      owner,
+      group,
+      mtime: isNaN(seconds) ? null : new Date(seconds * 1000).toISOString(),
+    };
+    if (entry.type === "symlink" && target) {
+      entry.target = target;
+    }
+    return entry;
+  });
+
+  return { probe, entries, truncated: raw.length >= MAX_PROBE_BYTES };
+}
+
+function matchesAny(patterns: string[], rel: string): boolean {
+  return patterns.some((pattern) => globToRegExp(pattern.replace(/^\.\//, "").replace(/\/+$/, "")).test(rel));
+}
+
+function isListed(rel: string, include: string[], exclude: string[]): boolean {
+  const segments = rel.split("/");
+  for (let i = 1; i <= segments.length; i++) {
+    if (matchesAny(exclude, segments.slice(0, i).join("/"))) {
+      return false;
+    }
+  }
+  return include.length === 0 || matchesAny(include, rel) || matchesAny(include, segments[segments.length - 1]);
+}
+
+export async function listRemoteDir(
+  session: TerminalSession,
+  remotePath: string,
+  options: ListDirOptions = {}
+): Promise<DirListing> {
+  const depth = Math.min(Math.max(options.depth || 1, 1), MAX_LIST_DEPTH);
+  const limit = Math.min(Math.max(options.limit || DEFAULT_LIST_LIMIT, 1), MAX_LIST_LIMIT);
+
+  const output = await executeCommand(
+    session,
+    posixCommand(
+      `p=${quotePath(remotePath)}; ` +
+      `if [ ! -d "$p" ]; then echo "notdir=1"; exit 0; fi; ` +
+      `cd "$p" || exit 1; ${printValueCommand("dir", `"$(pwd)"`)}; ` +
+      probeScript(".", `-mindepth 1 -maxdepth ${depth}`),
+      session.shellFamily
+    ),
+    60000,
+    { label: `(list ${remotePath})` }
+  );
+
+  if (/^notdir=1/m.test(output)) {
+    throw new Error(`Remote directory not found: ${remotePath}`);
+  }
+
+  const parsed = parseProbe(output);
+  const entries = parsed.entries
+    .map((entry) => ({ ...entry, name: entry.name.replace(/^\.\//, "") }))
+    .filter((entry) => isListed(entry.name, options.include || [], options.exclude || []))
+    .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+  return {
+    path: parsePrintedValue(output, "dir") ?? remotePath,
+    probe: parsed.probe,
+    depth,
+    count: entries.length,
+    truncated: parsed.truncated || entries.length > limit,
+    entries: entries.slice(0, limit),
+  };
+}
+
+export async function statRemote(session: TerminalSession, remotePath: string): Promise<RemoteEntry | null> {
+  const output = await executeCommand(
+    session,
+    posixCommand(
+      `p=${quotePath(remotePath)}; ` +
+      `if [ ! -e "$p" ] && [ ! -L "$p" ]; then echo "missing=1"; exit 0; fi; ` +
+      `case "$p" in /*) ;; *) p="./$p" ;; esac; ` +
+      probeScript(`"$p"`, "-maxdepth 0"),
+      session.shellFamily
+    ),
+    10000,
+    { label: `(stat ${remotePath})` }
+  );
+
+  if (/^missing=1/m.test(output)) {
+    return null;
+  }
+
+  const entry = parseProbe(output).entries[0];
+  if (!entry) {
+    throw new Error(`Could not stat ${remotePath}: ${output || "(no output)"}`);
+  }
+  return { ...entry, name: remotePath };
+}
@@ -0,0 +1,212 @@
+/**
+ * Copyright (c) 2025 tranhuucanh39@gmail.com
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { CommandResult, sessions, TerminalSession } from "./session.js";
+
+export type OutputStream = "stdout" | "stderr";
+
+export interface StoredOutput {
+  id: string;
+  sessionId: string;
+  command: string;
+  exitCode: number;
+  stdout: string;
+  stderr: string | null;
+  createdAt: Date;
+}
+
+export interface TruncatedText {
+  text: string;
+  truncated: boolean;
+}
+
+export interface ReadOutputOptions {
+  stream?: OutputStream;
+  startLine?: number;
+  endLine?: number;
+  grep?: string;
+  flags?: string;
+  context?: number;
+}
+
+export const DEFAULT_MAX_OUTPUT_BYTES = 64 * 1024;
+export const MAX_STORED_OUTPUTS = 20;
+export const MAX_STORED_OUTPUT_BYTES = 32 * 1024 * 1024;
+export const DEFAULT_PAGE_LINES = 200;
+export const MAX_PAGE_LINES = 2000;
+export const MAX_GREP_MATCHES = 500;
+
+let outputCounter = 0;
+
+function storedSize(output: StoredOutput): number {
+  return output.stdout.length + (output.stderr?.length || 0);
+}
+
+export function storeOutput(session: TerminalSession, result: CommandResult): string {
+  outputCounter += 1;
+  const id = `out_${Date.now().toString(36)}_${outputCounter}`;
+
+  session.outputs.set(id, {
+    id,
+    sessionId: session.id,
+    command: result.command,
+    exitCode: result.exitCode,
+    stdout: result.stdout,
+    stderr: result.stderr,
+    createdAt: new Date(),
+  });
+
+  let total = Array.from(session.outputs.values()).reduce((sum, output) => sum + storedSize(output), 0);
+  for (const [oldId, output] of session.outputs) {
+    if (oldId === id || (session.outputs.size <= MAX_STORED_OUTPUTS && total <= MAX_STORED_OUTPUT_BYTES)) {
+      break;
+    }
+    total -= storedSize(output);
+    session.outputs.delete(oldId);
+  }
+
+  result.outputId = id;
+  return id;
+}
+
+export function findOutput(outputId: string): StoredOutput {
+  for (const session of sessions.values()) {
+    const output = session.outputs.get(outputId);
+    if (output) {
+      return output;
+    }
+  }
+  throw new Error(
+    `Output ${outputId} not found. Only the last ${MAX_STORED_OUTPUTS} outputs of each open session are kept.`
+  );
+}
+
+export function truncateHeadTail(text: string, maxBytes: number, outputId: string | null): TruncatedText {
+  if (Buffer.byteLength(text) <= maxBytes) {
+    return { text, truncated: false };
+  }
+
+  const reference = outputId ? `; use terminal_read_output with output_id "${outputId}" to read them` : "";
+  const lines = text.split("\n");
+  const budget = Math.floor(maxBytes / 2);
+
+  let headCount = 0;
+  let headBytes = 0;
+  while (headCount < lines.length && headBytes + Buffer.byteLength(lines[headCount]) + 1 <= budget) {
+    headBytes += Buffer.byteLength(lines[headCount]) + 1;
+    headCount += 1;
+  }
+
+  let tailCount = 0;
+  let tailBytes = 0;
+  while (
+    lines.length - tailCount - 1 >= headCount &&
+    tailBytes + Buffer.byteLength(lines[lines.length - tailCount - 1]) + 1 <= budget
+  ) {
+    tailBytes += Buffer.byteLength(lines[lines.length - tailCount - 1]) + 1;
+    tailCount += 1;
+  }
+
+  if (headCount === 0 && tailCount === 0) {
+    const omitted = text.length - 2 * budget;
+    return {
+      text:
+        `${text.substring(0, budget)}\n` +
+        `... [${omitted} characters omitted${reference}] ...\n` +
+        text.substring(text.length - budget),
+      truncated: true,
+    };
+  }
+
+  const firstOmitted = headCount + 1;
+  const lastOmitted = lines.length - tailCount;
+
+  return {
+    text: [
+      ...lines.slice(0, headCount),
+      `... [lines ${firstOmitted}-${lastOmitted} of ${lines.length} omitted${reference}] ...`,
+      ...lines.slice(lines.length - tailCount),
+    ].join("\n"),
+    truncated: true,
+  };
+}
+
+function numberLine(lineNumber: number, line: string): string {
+  return `${String(lineNumber).padStart(6)}  ${line}`;
+}
+
+export function readOutput(output: StoredOutput, options: ReadOutputOptions = {}): string {
+  const stream = options.stream || "stdout";
+  const text = stream === "stderr" ? output.stderr : output.stdout;
+
+  if (text === null) {
+    throw new Error(`Output ${output.id} has no separate stderr. Run the command with separate_stderr: true.`);
+  }
+
+  const lines = text.split("\n");
+  const header = `Output ${output.id} (${stream}, ${lines.length} lines, exit code ${output.exitCode})\nCommand: ${output.command}\n`;
+
+  if (options.grep) {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(options.grep, (options.flags || "").replace(/g/g, ""));
+    } catch (error: any) {
+      throw new Error(`Invalid grep pattern: ${error.message}`);
+    }
+    const context = Math.min(Math.max(options.context ?? 0, 0), 20);
+    const from = Math.max((options.startLine ?? 1) - 1, 0);
+    const to = Math.min(options.endLine ?? lines.length, lines.length);
+
+    const selected = new Set<number>();
+    let matches = 0;
+    for (let i = from; i < to && matches < MAX_GREP_MATCHES; i++) {
+      if (regex.test(lines[i])) {
+        matches += 1;
+        for (let j = Math.max(from, i - context); j <= Math.min(to - 1, i + context); j++) {
+          selected.add(j);
+        }
+      }
+    }
+
+    if (matches === 0) {
+      return `${header}\nNo lines match /${options.grep}/${options.flags || ""}`;
+    }
+
+    const body: string[] = [];
+    let previous = -1;
+    for (const index of Array.from(selected).sort((a, b) => a - b)) {
+      if (previous !== -1 && index > previous + 1) {
+        body.push("--");
+      }
+      body.push(numberLine(index + 1, lines[index]));
+      previous = index;
+    }
+
+    return (
+      `${header}${matches} matching line(s)${matches >= MAX_GREP_MATCHES ? ` (stopped after ${MAX_GREP_MATCHES})` : ""}\n\n` +
+      body.join("\n")
+    );
+  }
+
+  const start = Math.min(Math.max(options.startLine ?? 1, 1), lines.length);
+  const lastLine = Math.min(options.endLine ?? start + DEFAULT_PAGE_LINES - 1, start + MAX_PAGE_LINES - 1, lines.length);
+
+  const body: string[] = [];
+  let bytes = 0;
+  let end = start - 1;
+  while (end < lastLine && (body.length === 0 || bytes + Buffer.byteLength(lines[end]) <= DEFAULT_MAX_OUTPUT_BYTES)) {
+    body.push(numberLine(end + 1, lines[end]));
+    bytes += Buffer.byteLength(lines[end]) + 1;
+    end += 1;
+  }
+
+  return (
+    `${header}Lines ${start}-${end}` +
+    (end < lines.length ? ` (continue with start_line: ${end + 1})` : "") +
+    `\n\n${body.join("\n")}`
+  );
+}
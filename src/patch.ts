@@ -0,0 +1,204 @@
+/**
+ * Copyright (c) 2025 tranhuucanh39@gmail.com
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+/**
+ * Unified diff parsing and application for a single file.
+ *
+ * Hunks are located by their context and removed lines rather than trusted
+ * line numbers: each hunk is tried at its stated position first, then at the
+ * nearest offset where it matches, the way `patch` does. Hunk line counts are
+ * not required to be correct, since hand-written diffs rarely get them right.
+ */
+
+export interface PatchHunk {
+  header: string;
+  oldStart: number;
+  lines: string[];
+  oldNoNewline: boolean;
+  newNoNewline: boolean;
+}
+
+export interface AppliedHunk {
+  hunk: PatchHunk;
+  oldLine: number;
+  newLine: number;
+  offset: number;
+  whitespace: boolean;
+}
+
+export interface PatchResult {
+  content: string;
+  applied: AppliedHunk[];
+  added: number;
+  removed: number;
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/;
+
+export function parsePatch(patch: string): PatchHunk[] {
+  const hunks: PatchHunk[] = [];
+  let current: PatchHunk | null = null;
+  let sawFile = false;
+
+  const patchLines = patch.replace(/\r\n/g, "\n").split("\n");
+  for (let i = 0; i < patchLines.length; i++) {
+    const rawLine = patchLines[i];
+    if (rawLine.startsWith("--- ") && patchLines[i + 1]?.startsWith("+++ ")) {
+      if (sawFile && hunks.length > 0) {
+        throw new Error("Patch touches more than one file; apply it one file at a time");
+      }
+      sawFile = true;
+      current = null;
+      i++;
+      continue;
+    }
+
+    const header = rawLine.match(HUNK_HEADER);
+    if (header) {
+      current = { header: rawLine, oldStart: parseInt(header[1], 10), lines: [], oldNoNewline: false, newNoNewline: false };
+      hunks.push(current);
+      continue;
+    }
+
+    if (!current) {
+      continue;
+    }
+
+    if (rawLine.startsWith("\\")) {
+      const previous = current.lines[current.lines.length - 1];
+      if (previous?.startsWith("-")) {
+        current.oldNoNewline = true;
+      } else if (previous?.startsWith("+")) {
+        current.newNoNewline = true;
+      } else if (previous !== undefined) {
+        current.oldNoNewline = true;
+        current.newNoNewline = true;
+      }
+    } else if (rawLine === "" || rawLine[0] === " " || rawLine[0] === "-" || rawLine[0] === "+") {
+      current.lines.push(rawLine === "" ? " " : rawLine);
+    } else {
+      current = null;
+    }
+  }
+
+  for (const hunk of hunks) {
+    while (hunk.lines.length > 0 && hunk.lines[hunk.lines.length - 1] === " ") {
+      hunk.lines.pop();
+    }
+  }
+
+  const usable = hunks.filter((hunk) => hunk.lines.some((line) => line[0] !== " "));
+  if (usable.length === 0) {
+    throw new Error("No changes found in patch; expected a unified diff with @@ hunk headers");
+  }
+  return usable;
+}
+
+function findHunk(lines: string[], expected: string[], near: number, from: number, loose: boolean): number {
+  const matches = (at: number) =>
+    expected.every((line, i) => (loose ? lines[at + i].trimEnd() === line.trimEnd() : lines[at + i] === line));
+  const last = lines.length - expected.length;
+
+  for (let distance = 0; near - distance >= from || near + distance <= last; distance++) {
+    for (const at of distance === 0 ? [near] : [near - distance, near + distance]) {
+      if (at >= from && at <= last && matches(at)) {
+        return at;
+      }
+    }
+  }
+  return -1;
+}
+
+export function applyPatch(content: string, hunks: PatchHunk[]): PatchResult {
+  const lines = content.split("\n");
+  let endsWithNewline = content === "" || content.endsWith("\n");
+  if (endsWithNewline) {
+    lines.pop();
+  }
+
+  const applied: AppliedHunk[] = [];
+  let delta = 0;
+  let from = 0;
+  let added = 0;
+  let removed = 0;
+
+  hunks.forEach((hunk, index) => {
+    const oldLines = hunk.lines.filter((line) => line[0] !== "+").map((line) => line.substring(1));
+    const newLines = hunk.lines.filter((line) => line[0] !== "-").map((line) => line.substring(1));
+    const stated = (oldLines.length === 0 ? hunk.oldStart : hunk.oldStart - 1) + delta;
+    const near = Math.max(from, stated);
+
+    let whitespace = false;
+    let at = oldLines.length === 0 ? Math.min(near, lines.length) : findHunk(lines, oldLines, near, from, false);
+    if (at === -1) {
+      at = findHunk(lines, oldLines, near, from, true);
+      whitespace = at !== -1;
+    }
+    if (at === -1) {
+      throw new Error(
+        `Hunk ${index + 1} (${hunk.header}) does not apply: its context and removed lines were not found ` +
+        `${index > 0 ? "after the previous hunk " : ""}in the file. Re-read the file and regenerate the patch.`
+      );
+    }
+
+    let oldIndex = at;
+    const replacement: string[] = [];
+    for (const line of hunk.lines) {
+      if (line[0] === " ") {
+        replacement.push(lines[oldIndex++]);
+      } else if (line[0] === "-") {
+        oldIndex++;
+      } else {
+        replacement.push(line.substring(1));
+      }
+    }
+
+    const reachesEnd = at + oldLines.length === lines.length;
+    lines.splice(at, oldLines.length, ...replacement);
+    if (reachesEnd && hunk.newNoNewline) {
+      endsWithNewline = false;
+    } else if (reachesEnd && hunk.oldNoNewline) {
+      endsWithNewline = true;
+    }
+
+    applied.push({
+      hunk,
+      oldLine: at - delta + (oldLines.length === 0 ? 0 : 1),
+      newLine: at + (newLines.length === 0 ? 0 : 1),
+      offset: at - stated,
+      whitespace,
+    });
+    added += newLines.length - hunk.lines.filter((line) => line[0] === " ").length;
+    removed += oldLines.length - hunk.lines.filter((line) => line[0] === " ").length;
+    delta += newLines.length - oldLines.length;
+    from = at + newLines.length;
+  });
+
+  return {
+    content: lines.join("\n") + (endsWithNewline && lines.length > 0 ? "\n" : ""),
+    applied,
+    added,
+    removed,
+  };
+}
+
+export function formatPatchPreview(filePath: string, result: PatchResult): string {
+  const out = [`--- ${filePath}`, `+++ ${filePath}`];
+
+  for (const { hunk, oldLine, newLine, offset, whitespace } of result.applied) {
+    const oldCount = hunk.lines.filter((line) => line[0] !== "+").length;
+    const newCount = hunk.lines.filter((line) => line[0] !== "-").length;
+    const notes = [
+      ...(offset !== 0 ? [`offset ${offset > 0 ? "+" : ""}${offset} line${Math.abs(offset) === 1 ? "" : "s"}`] : []),
+      ...(whitespace ? ["matched ignoring trailing whitespace"] : []),
+    ];
+    out.push(`@@ -${oldLine},${oldCount} +${newLine},${newCount} @@${notes.length > 0 ? ` (${notes.join(", ")})` : ""}`);
+    out.push(...hunk.lines);
+  }
+
+  return out.join("\n");
+}
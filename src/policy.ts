@@ -0,0 +1,342 @@
+/**
+ * Copyright (c) 2025 tranhuucanh39@gmail.com
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { randomBytes } from "crypto";
+import { getConfig } from "./config.js";
+import { sessionHosts, TerminalSession } from "./session.js";
+import { globToRegExp } from "./utils.js";
+
+export type PolicyAction = "allow" | "deny" | "confirm";
+
+export interface PolicyRule {
+  action: PolicyAction;
+  pattern?: string;
+  flags?: string;
+  argv?: string[];
+  reason?: string;
+}
+
+export interface PolicyConfig {
+  description?: string;
+  rules?: PolicyRule[];
+  dangerous?: PolicyAction;
+  default_action?: PolicyAction;
+}
+
+export interface HostPolicyConfig {
+  hosts: string[];
+  policy: string;
+}
+
+export interface PolicyDecision {
+  action: PolicyAction;
+  policy: string;
+  reason: string;
+  category: "rule" | "dangerous" | "default";
+}
+
+export class PolicyViolationError extends Error {
+  constructor(public readonly decision: PolicyDecision, public readonly command: string) {
+    super(
+      `Policy violation: command blocked by policy "${decision.policy}"\n` +
+      `Command: ${command}\n` +
+      `Reason: ${decision.reason}`
+    );
+    this.name = "PolicyViolationError";
+  }
+}
+
+export class ConfirmationRequiredError extends Error {
+  constructor(
+    public readonly decision: PolicyDecision,
+    public readonly command: string,
+    public readonly token: string
+  ) {
+    super(
+      `Confirmation required by policy "${decision.policy}"\n` +
+      `Command: ${command}\n` +
+      `Reason: ${decision.reason}\n` +
+      `To run it anyway, call the tool again with the same command and confirm_token: "${token}" ` +
+      `(valid for ${CONFIRMATION_TTL / 1000}s, single use).`
+    );
+    this.name = "ConfirmationRequiredError";
+  }
+}
+
+export const CONFIRMATION_TTL = 5 * 60 * 1000;
+
+const ACTION_SEVERITY: Record<PolicyAction, number> = { allow: 0, confirm: 1, deny: 2 };
+
+const DANGEROUS_PATTERNS: Array<[RegExp, string]> = [
+  [/:\(\)\s*\{\s*:\s*\|\s*:\s*&\s*\}\s*;\s*:/, "fork bomb"],
+  [/\bdrop\s+(database|schema|table)\b/i, "drops a database object"],
+  [/\btruncate\s+table\b/i, "truncates a table"],
+  [/>\s*\/dev\/(sd[a-z]|nvme\d|hd[a-z]|xvd[a-z]|disk\d)/, "overwrites a block device"],
+];
+
+const DANGEROUS_COMMANDS: Record<string, string> = {
+  shutdown: "shuts the machine down",
+  reboot: "reboots the machine",
+  halt: "halts the machine",
+  poweroff: "powers the machine off",
+  mkfs: "formats a filesystem",
+  fdisk: "edits a partition table",
+  wipefs: "wipes filesystem signatures",
+};
+
+const COMMAND_PREFIXES = ["sudo", "doas", "env", "command", "exec", "nohup", "time"];
+
+const pendingConfirmations = new Map<string, { sessionId: string; command: string; expiresAt: number }>();
+
+export function splitCommandSegments(command: string): string[][] {
+  const segments: string[][] = [];
+  let current: string[] = [];
+  let token = "";
+  let quote: string | null = null;
+  let hasToken = false;
+
+  const pushToken = () => {
+    if (hasToken) {
+      current.push(token);
+    }
+    token = "";
+    hasToken = false;
+  };
+  const pushSegment = () => {
+    pushToken();
+    if (current.length > 0) {
+      segments.push(current);
+    }
+    current = [];
+  };
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else if (char === "\\" && quote === '"' && i + 1 < command.length) {
+        token += command[++i];
+      } else {
+        token += char;
+      }
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      quote = char;
+      hasToken = true;
+    } else if (char === "\\" && i + 1 < command.length) {
+      token += command[++i];
+      hasToken = true;
+    } else if (char === ";" || char === "|" || char === "&" || char === "\n" || char === "(" || char === ")" || char === "`") {
+      pushSegment();
+    } else if (/\s/.test(char)) {
+      pushToken();
+    } else {
+      token += char;
+      hasToken = true;
+    }
+  }
+  pushSegment();
+
+  return segments.map((argv) => {
+    let start = 0;
+    while (
+      start < argv.length &&
+      (/^[A-Za-z_][A-Za-z0-9_]*=/.test(argv[start]) || COMMAND_PREFIXES.includes(argv[start]))
+    ) {
+      start += 1;
+    }
+    return argv.slice(start);
+  });
+}
+
+function matchesArgv(rule: string[], argv: string[]): boolean {
+  if (argv.length === 0 || !globToRegExp(rule[0]).test(argv[0])) {
+    return false;
+  }
+
+  let position = 1;
+  for (const pattern of rule.slice(1)) {
+    const regex = globToRegExp(pattern);
+    while (position < argv.length && !regex.test(argv[position])) {
+      position += 1;
+    }
+    if (position >= argv.length) {
+      return false;
+    }
+    position += 1;
+  }
+  return true;
+}
+
+function ruleMatches(rule: PolicyRule, command: string, segments: string[][]): boolean {
+  if (rule.pattern && new RegExp(rule.pattern, rule.flags).test(command)) {
+    return true;
+  }
+  if (rule.argv && rule.argv.length > 0) {
+    return segments.some((argv) => matchesArgv(rule.argv!, argv));
+  }
+  return false;
+}
+
+export function detectDangerous(command: string, segments: string[][] = splitCommandSegments(command)): string | null {
+  for (const [pattern, reason] of DANGEROUS_PATTERNS) {
+    if (pattern.test(command)) {
+      return reason;
+    }
+  }
+
+  for (const argv of segments) {
+    const program = (argv[0] || "").split("/").pop() || "";
+    const base = program.split(".")[0];
+
+    if (DANGEROUS_COMMANDS[base]) {
+      return `${program} ${DANGEROUS_COMMANDS[base]}`;
+    }
+
+    if (program === "init" && (argv[1] === "0" || argv[1] === "6")) {
+      return `init ${argv[1]} stops or restarts the machine`;
+    }
+
+    if (program === "systemctl" && argv.some((arg) => ["poweroff", "reboot", "halt", "kexec"].includes(arg))) {
+      return "systemctl stops or restarts the machine";
+    }
+
+    if (program === "dd" && argv.some((arg) => /^of=\/dev\//.test(arg) && arg !== "of=/dev/null")) {
+      return "dd writes to a device";
+    }
+
+    if (program === "rm") {
+      const flags = argv.filter((arg) => arg.startsWith("-")).join(" ");
+      const recursive = /(^|\s)-[a-zA-Z]*[rR]|--recursive/.test(flags);
+      const force = /(^|\s)-[a-zA-Z]*f|--force/.test(flags);
+      if (recursive && force) {
+        return "rm -rf deletes files recursively without confirmation";
+      }
+    }
+
+    if ((program === "chmod" || program === "chown") && argv.some((arg) => /^-[a-zA-Z]*R/.test(arg)) && argv.includes("/")) {
+      return `${program} -R on the filesystem root`;
+    }
+  }
+
+  return null;
+}
+
+export function applicablePolicies(session: TerminalSession): string[] {
+  const config = getConfig();
+  const names: string[] = [];
+
+  const basePolicy = session.policy || (config.policies?.default ? "default" : null);
+  if (basePolicy) {
+    names.push(basePolicy);
+  }
+
+  const hosts = sessionHosts(session);
+  for (const hostPolicy of config.host_policies || []) {
+    const matches = hostPolicy.hosts.some((pattern) => hosts.some((host) => globToRegExp(pattern).test(host)));
+    if (matches && !names.includes(hostPolicy.policy)) {
+      names.push(hostPolicy.policy);
+    }
+  }
+
+  return names;
+}
+
+function evaluatePolicy(name: string, policy: PolicyConfig, command: string, segments: string[][]): PolicyDecision {
+  for (const rule of policy.rules || []) {
+    if (ruleMatches(rule, command, segments)) {
+      return {
+        action: rule.action,
+        policy: name,
+        reason: rule.reason || `matched ${rule.pattern ? `pattern /${rule.pattern}/` : `argv [${(rule.argv || []).join(" ")}]`}`,
+        category: "rule",
+      };
+    }
+  }
+
+  const dangerous = detectDangerous(command, segments);
+  if (dangerous) {
+    return {
+      action: policy.dangerous || "confirm",
+      policy: name,
+      reason: `dangerous command: ${dangerous}`,
+      category: "dangerous",
+    };
+  }
+
+  return {
+    action: policy.default_action || "allow",
+    policy: name,
+    reason: "default action",
+    category: "default",
+  };
+}
+
+export function evaluateCommand(session: TerminalSession, command: string): PolicyDecision {
+  const config = getConfig();
+  const segments = splitCommandSegments(command);
+  const names = applicablePolicies(session);
+
+  if (names.length === 0) {
+    return evaluatePolicy("builtin", {}, command, segments);
+  }
+
+  let decision: PolicyDecision | null = null;
+  for (const name of names) {
+    const policy = config.policies?.[name];
+    if (!policy) {
+      throw new Error(`Policy ${name} is not defined in the config file`);
+    }
+
+    const current = evaluatePolicy(name, policy, command, segments);
+    if (!decision || ACTION_SEVERITY[current.action] > ACTION_SEVERITY[decision.action]) {
+      decision = current;
+    }
+  }
+
+  return decision!;
+}
+
+export function hasConfirmation(session: TerminalSession, command: string, confirmToken?: string): boolean {
+  const pending = confirmToken ? pendingConfirmations.get(confirmToken) : undefined;
+  return !!pending && pending.expiresAt >= Date.now() && pending.sessionId === session.id && pending.command === command;
+}
+
+export function requestConfirmation(session: TerminalSession, command: string): string {
+  const now = Date.now();
+  for (const [token, pending] of pendingConfirmations) {
+    if (pending.expiresAt < now) {
+      pendingConfirmations.delete(token);
+    }
+  }
+
+  const token = randomBytes(6).toString("hex");
+  pendingConfirmations.set(token, { sessionId: session.id, command, expiresAt: now + CONFIRMATION_TTL });
+  return token;
+}
+
+export function enforcePolicy(session: TerminalSession, command: string, confirmToken?: string): PolicyDecision {
+  const decision = evaluateCommand(session, command);
+
+  if (decision.action === "deny") {
+    throw new PolicyViolationError(decision, command);
+  }
+
+  if (decision.action === "confirm") {
+    if (hasConfirmation(session, command, confirmToken)) {
+      pendingConfirmations.delete(confirmToken!);
+      return decision;
+    }
+    throw new ConfirmationRequiredError(decision, command, requestConfirmation(session, command));
+  }
+
+  return decision;
+}
@@ -0,0 +1,106 @@
+/**
+ * Copyright (c) 2025 tranhuucanh39@gmail.com
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { getProfile, ProfileConfig, SshProfileConfig } from "./config.js";
+import { createSession, executeCommand, SessionBackend, sessions, TerminalSession } from "./session.js";
+import { connectSsh, formatSshTarget, SSH_CONNECT_TIMEOUT, SshTarget } from "./ssh.js";
+import { cdCommand, exportCommand } from "./quoting.js";
+import { sleep } from "./utils.js";
+
+export function profileSshTarget(ssh: SshProfileConfig): SshTarget {
+  return {
+    host: ssh.host,
+    user: ssh.user,
+    port: ssh.port,
+    identityFile: ssh.identity_file,
+    agentForwarding: ssh.agent_forwarding,
+    jumpHosts: ssh.jump_hosts,
+    knownHostsPolicy: ssh.known_hosts_policy,
+    options: ssh.ssh_options,
+  };
+}
+
+export async function openProfileSession(
+  sessionId: string,
+  profileName: string,
+  shell?: string,
+  policy?: string,
+  backend?: SessionBackend
+): Promise<TerminalSession> {
+  if (sessions.has(sessionId)) {
+    throw new Error(
+      `Session ${sessionId} already exists. ` +
+      `Use terminal_close_session first if you want to recreate it.`
+    );
+  }
+
+  const profile = getProfile(profileName);
+  let session: TerminalSession;
+
+  if (profile.ssh) {
+    session = await connectSsh(sessionId, profileSshTarget(profile.ssh), SSH_CONNECT_TIMEOUT, {
+      profile: profileName,
+      policy: policy || profile.policy,
+      backend: backend || profile.backend,
+    });
+
+    for (const [key, value] of Object.entries(profile.env || {})) {
+      await executeCommand(session, exportCommand(key, String(value), session.shellFamily), 10000);
+    }
+    if (profile.cwd) {
+      await executeCommand(session, cdCommand(profile.cwd, session.shellFamily), 10000);
+    }
+  } else {
+    session = createSession(sessionId, shell || profile.shell, {
+      cwd: profile.cwd,
+      env: profile.env,
+      profile: profileName,
+      policy: policy || profile.policy,
+      backend: backend || profile.backend,
+    });
+    await sleep(500);
+  }
+
+  for (const command of profile.init_commands || []) {
+    try {
+      await executeCommand(session, command, 30000);
+    } catch (error: any) {
+      throw new Error(
+        `Init command failed for profile ${profileName}: ${command}\n${error.message}\n` +
+        `Session ${sessionId} was created but may be only partially initialized.`
+      );
+    }
+  }
+
+  return session;
+}
+
+export function formatProfile(name: string, profile: ProfileConfig): string {
+  const lines = [`  • ${name}${profile.description ? ` - ${profile.description}` : ""}`];
+
+  lines.push(`    Target: ${profile.ssh ? formatSshTarget(profileSshTarget(profile.ssh)) : "local"}`);
+  if (profile.shell) {
+    lines.push(`    Shell: ${profile.shell}`);
+  }
+  if (profile.cwd) {
+    lines.push(`    Working directory: ${profile.cwd}`);
+  }
+  if (profile.env && Object.keys(profile.env).length > 0) {
+    lines.push(`    Environment: ${Object.keys(profile.env).join(", ")}`);
+  }
+  if (profile.policy) {
+    lines.push(`    Policy: ${profile.policy}`);
+  }
+  if (profile.groups && profile.groups.length > 0) {
+    lines.push(`    Groups: ${profile.groups.join(", ")}`);
+  }
+  if (profile.init_commands && profile.init_commands.length > 0) {
+    lines.push(`    Init commands: ${profile.init_commands.length}`);
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,149 @@
+/**
+ * Copyright (c) 2025 tranhuucanh39@gmail.com
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+/**
+ * Per-session queue for tool calls that need a session to themselves.
+ *
+ * A terminal can only run one thing at a time, and operations such as uploads
+ * are many commands long. Calls against a session that is in use wait here
+ * instead of failing: higher priority first, then in arrival order. Each call
+ * holds the session from its first command to its last, so nothing else is
+ * typed into the terminal in between.
+ */
+
+import { getConfig } from "./config.js";
+
+export interface QueueConfig {
+  max_depth?: number;
+  timeout_ms?: number;
+}
+
+export interface QueueOptions {
+  priority?: number;
+  timeout?: number;
+  front?: boolean;
+}
+
+export interface QueuedItem {
+  label: string;
+  priority: number;
+  enqueuedAt: Date;
+}
+
+export interface QueueState {
+  active: { label: string; startedAt: Date } | null;
+  waiting: QueuedItem[];
+}
+
+interface Waiter extends QueuedItem {
+  start(): void;
+  fail(error: Error): void;
+}
+
+interface SessionQueue {
+  active: { label: string; startedAt: Date } | null;
+  waiting: Waiter[];
+}
+
+export const DEFAULT_QUEUE_DEPTH = 16;
+export const DEFAULT_QUEUE_TIMEOUT = 5 * 60 * 1000;
+export const MAX_QUEUE_TIMEOUT = 60 * 60 * 1000;
+
+const queues = new Map<string, SessionQueue>();
+
+function waitForTurn(sessionId: string, queue: SessionQueue, label: string, options: QueueOptions): Promise<void> {
+  const config = getConfig().queue || {};
+  const depth = config.max_depth || DEFAULT_QUEUE_DEPTH;
+  if (!options.front && queue.waiting.length >= depth) {
+    throw new Error(
+      `Session ${sessionId} already has ${queue.waiting.length} calls waiting (limit ${depth}) ` +
+      `behind: ${queue.active?.label ?? "(starting)"}. Try again later or use a different session.`
+    );
+  }
+
+  const timeout = Math.min(Math.max(options.timeout || config.timeout_ms || DEFAULT_QUEUE_TIMEOUT, 1000), MAX_QUEUE_TIMEOUT);
+
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      queue.waiting.splice(queue.waiting.indexOf(waiter), 1);
+      reject(new Error(
+        `Gave up after waiting ${timeout}ms for session ${sessionId}, ` +
+        `which is busy executing: ${queue.active?.label ?? "(unknown)"}`
+      ));
+    }, timeout);
+
+    const waiter: Waiter = {
+      label,
+      priority: options.priority || 0,
+      enqueuedAt: new Date(),
+      start: () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      fail: (error) => {
+        clearTimeout(timer);
+        reject(error);
+      },
+    };
+
+    const at = options.front ? 0 : queue.waiting.findIndex((other) => other.priority < waiter.priority);
+    queue.waiting.splice(at === -1 ? queue.waiting.length : at, 0, waiter);
+  });
+}
+
+export async function runQueued<T>(
+  sessionId: string,
+  label: string,
+  options: QueueOptions,
+  task: () => Promise<T>
+): Promise<T> {
+  let queue = queues.get(sessionId);
+  if (!queue) {
+    queue = { active: null, waiting: [] };
+    queues.set(sessionId, queue);
+  }
+
+  if (queue.active) {
+    await waitForTurn(sessionId, queue, label, options);
+  } else {
+    queue.active = { label, startedAt: new Date() };
+  }
+
+  try {
+    return await task();
+  } finally {
+    const next = queue.waiting.shift();
+    if (next) {
+      queue.active = { label: next.label, startedAt: new Date() };
+      next.start();
+    } else {
+      queue.active = null;
+      if (queues.get(sessionId) === queue) {
+        queues.delete(sessionId);
+      }
+    }
+  }
+}
+
+export function clearQueue(sessionId: string, reason: string): number {
+  const queue = queues.get(sessionId);
+  if (!queue) {
+    return 0;
+  }
+
+  const waiting = queue.waiting.splice(0);
+  waiting.forEach((waiter) => waiter.fail(new Error(`Session ${sessionId} ${reason} before this call got its turn`)));
+  return waiting.length;
+}
+
+export function queueState(sessionId: string): QueueState {
+  const queue = queues.get(sessionId);
+  return {
+    active: queue?.active ?? null,
+    waiting: (queue?.waiting ?? []).map(({ label, priority, enqueuedAt }) => ({ label, priority, enqueuedAt })),
+  };
+}
@@ -0,0 +1,87 @@
+/**
+ * Copyright (c) 2025 tranhuucanh39@gmail.com
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+/**
+ * Quoting for commands typed into a session's interactive shell.
+ *
+ * Anything more than a single simple command is written as a POSIX script and
+ * run through `sh -c`, so only the outer argument has to be quoted for the
+ * shell that is actually reading the line: POSIX shells (bash, zsh, dash...),
+ * fish, or PowerShell. Paths inside those scripts are always quoted for sh.
+ * Every command trailer reports the family of the shell that read it (see
+ * integration.ts), so the family follows the session across ssh hops.
+ */
+
+export type ShellFamily = "posix" | "fish" | "powershell";
+
+export const SHELL_FAMILIES: ShellFamily[] = ["posix", "fish", "powershell"];
+
+export function shellFamilyOf(shellPath: string): ShellFamily {
+  const name = shellPath.trim().split(/\s+/)[0].split(/[\\/]/).pop()!.toLowerCase();
+  if (name === "fish") {
+    return "fish";
+  }
+  if (name.startsWith("pwsh") || name.startsWith("powershell")) {
+    return "powershell";
+  }
+  return "posix";
+}
+
+export function shellQuote(value: string, family: ShellFamily = "posix"): string {
+  switch (family) {
+    case "fish":
+      return `'${value.replace(/[\\']/g, "\\$&")}'`;
+    case "powershell":
+      return `'${value.replace(/['‘’‚‛]/g, "$&$&")}'`;
+    default:
+      return `'${value.replace(/'/g, `'\\''`)}'`;
+  }
+}
+
+export function quotePath(value: string, family: ShellFamily = "posix"): string {
+  if (value !== "~" && !value.startsWith("~/")) {
+    return shellQuote(value, family);
+  }
+
+  const rest = value.substring(2);
+  if (family === "powershell") {
+    return `"$HOME${rest ? "/" + rest.replace(/[`$"“”„]/g, "`$&") : ""}"`;
+  }
+  return rest ? `"$HOME"/${shellQuote(rest, family)}` : `"$HOME"`;
+}
+
+export function posixCommand(script: string, family: ShellFamily = "posix"): string {
+  return `sh -c ${shellQuote(script, family)}`;
+}
+
+export function printValueCommand(key: string, expression: string): string {
+  return `echo "${key}=$(printf '%s' ${expression} | od -An -v -tx1 | tr -d ' \\n')"`;
+}
+
+export function parsePrintedValue(output: string, key: string): string | null {
+  const match = output.match(new RegExp(`^${key}=([0-9a-f]*)\\s*$`, "m"));
+  return match ? Buffer.from(match[1], "hex").toString("utf8") : null;
+}
+
+export function exportCommand(name: string, value: string, family: ShellFamily = "posix"): string {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+    throw new Error(`Invalid environment variable name: ${name}`);
+  }
+
+  switch (family) {
+    case "fish":
+      return `set -gx ${name} ${shellQuote(value, family)}`;
+    case "powershell":
+      return `$env:${name} = ${shellQuote(value, family)}`;
+    default:
+      return `export ${name}=${shellQuote(value, family)}`;
+  }
+}
+
+export function cdCommand(directory: string, family: ShellFamily = "posix"): string {
+  return `cd ${quotePath(directory, family)}`;
+}
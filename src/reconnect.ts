@@ -0,0 +1,125 @@
+/**
+ * Copyright (c) 2025 tranhuucanh39@gmail.com
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { currentFrame, DegradedState, formatLocation, ShellFrame } from "./context.js";
+import { splitCommandSegments } from "./policy.js";
+import { openProfileSession } from "./profiles.js";
+import { cdCommand, shellQuote } from "./quoting.js";
+import { lostSessions, runCommand, sessions, TerminalSession } from "./session.js";
+import { connectSsh, SSH_CONNECT_TIMEOUT } from "./ssh.js";
+
+export type HopRunner = (session: TerminalSession, command: string) => Promise<unknown>;
+
+export interface ReconnectResult {
+  session: TerminalSession;
+  reopened: boolean;
+  replayed: string[];
+  skipped: ShellFrame[];
+  cwdRestored: boolean | null;
+}
+
+export function sshHopCommand(command: string): string | null {
+  const argv = splitCommandSegments(command).find((segment) => segment[0] === "ssh" || segment[0]?.endsWith("/ssh"));
+  return argv ? argv.map((arg) => (/^[A-Za-z0-9_@%+=:,./-]+$/.test(arg) ? arg : shellQuote(arg))).join(" ") : null;
+}
+
+async function replayFrames(
+  session: TerminalSession,
+  degraded: DegradedState,
+  runHop: HopRunner
+): Promise<{ replayed: string[]; skipped: ShellFrame[] }> {
+  const replayed: string[] = [];
+  const skipped: ShellFrame[] = [];
+
+  while (degraded.lostFrames.length > 0) {
+    const frame = degraded.lostFrames[0];
+    const hop = frame.via === "ssh" && frame.command ? sshHopCommand(frame.command) : null;
+    if (hop) {
+      await runHop(session, hop);
+      const reached = currentFrame(session.context);
+      if (!reached || reached.host !== frame.host || reached.user !== frame.user) {
+        throw new Error(
+          `Replaying "${hop}" did not reach ${frame.user}@${frame.host}; ` +
+          `session ${session.id} is now at ${formatLocation(session.context)}` +
+          (replayed.length > 0 ? ` after replaying: ${replayed.join(", ")}` : "") +
+          `. The session is still degraded; fix the connection by hand or acknowledge the new location.`
+        );
+      }
+      replayed.push(hop);
+    } else {
+      skipped.push(frame);
+    }
+    degraded.lostFrames.shift();
+  }
+
+  session.degraded = null;
+  return { replayed, skipped };
+}
+
+async function restoreCwd(session: TerminalSession, cwd: string | null): Promise<boolean | null> {
+  if (!cwd || session.context.cwd === cwd) {
+    return null;
+  }
+
+  const result = await runCommand(session, cdCommand(cwd, session.shellFamily), 10000, { label: `(restore cwd ${cwd})` });
+  return result.exitCode === 0;
+}
+
+export async function reconnectSession(
+  sessionId: string,
+  runHop: HopRunner,
+  timeout: number = SSH_CONNECT_TIMEOUT
+): Promise<ReconnectResult> {
+  const session = sessions.get(sessionId);
+
+  if (session) {
+    const { degraded } = session;
+    if (!degraded) {
+      throw new Error(`Session ${sessionId} is not degraded; there is nothing to reconnect`);
+    }
+
+    const { replayed, skipped } = await replayFrames(session, degraded, runHop);
+    return { session, reopened: false, replayed, skipped, cwdRestored: await restoreCwd(session, degraded.cwd) };
+  }
+
+  const lost = lostSessions.get(sessionId);
+  if (!lost) {
+    throw new Error(`Session ${sessionId} not found`);
+  }
+
+  let reopened: TerminalSession;
+  try {
+    reopened = lost.profile
+      ? await openProfileSession(sessionId, lost.profile, undefined, lost.policy || undefined, lost.backend)
+      : await connectSsh(sessionId, lost.target, timeout, { policy: lost.policy || undefined, backend: lost.backend });
+  } catch (error) {
+    lostSessions.set(sessionId, lost);
+    throw error;
+  }
+
+  const degraded = { reason: lost.reason, detectedAt: lost.lostAt, lostFrames: lost.frames.slice(1), cwd: lost.cwd };
+  reopened.degraded = degraded;
+  const { replayed, skipped } = await replayFrames(reopened, degraded, runHop);
+  return { session: reopened, reopened: true, replayed, skipped, cwdRestored: await restoreCwd(reopened, lost.cwd) };
+}
+
+export function acknowledgeDisconnect(sessionId: string): string {
+  const session = sessions.get(sessionId);
+
+  if (session) {
+    if (!session.degraded) {
+      return `Session ${sessionId} is not degraded; nothing to acknowledge`;
+    }
+    session.degraded = null;
+    return `Acknowledged. Session ${sessionId} continues at ${formatLocation(session.context)}`;
+  }
+
+  if (lostSessions.delete(sessionId)) {
+    return `Forgot the lost connection of session ${sessionId}`;
+  }
+  throw new Error(`Session ${sessionId} not found`);
+}
@@ -0,0 +1,128 @@
+/**
+ * Copyright (c) 2025 tranhuucanh39@gmail.com
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { getConfig } from "./config.js";
+
+export interface RedactionPatternConfig {
+  name?: string;
+  pattern: string;
+  flags?: string;
+}
+
+export interface RedactionConfig {
+  enabled?: boolean;
+  patterns?: RedactionPatternConfig[];
+}
+
+export interface RedactionResult {
+  text: string;
+  count: number;
+  kinds: Record<string, number>;
+}
+
+export const REDACTION_MARKER = "[REDACTED:";
+
+interface Detector {
+  name: string;
+  regex: RegExp;
+  keepPrefix: boolean;
+  allow?: RegExp;
+}
+
+const BUILTIN_DETECTORS: Detector[] = [
+  {
+    name: "private_key",
+    regex: /-----BEGIN ([A-Z0-9]+ )*PRIVATE KEY( BLOCK)?-----[\s\S]*?(-----END ([A-Z0-9]+ )*PRIVATE KEY( BLOCK)?-----|$)/g,
+    keepPrefix: false,
+  },
+  { name: "aws_access_key", regex: /\b(AKIA|ASIA|AROA|AIDA)[0-9A-Z]{16}\b/g, keepPrefix: false },
+  {
+    name: "aws_secret_key",
+    regex: /(aws_secret_access_key["']?\s*[=:]\s*["']?)([A-Za-z0-9/+=]{40})/gi,
+    keepPrefix: true,
+  },
+  { name: "github_token", regex: /\b(gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/g, keepPrefix: false },
+  { name: "jwt", regex: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g, keepPrefix: false },
+  {
+    name: "password",
+    regex:
+      /(\b[A-Za-z0-9_.-]*(?:password|passwd|passphrase|pwd|secret|token|api[_-]?key)["']?\s*[=:]\s*)("[^"\n]+"|'[^'\n]+'|[^\s"',;&|]+)/gi,
+    keepPrefix: true,
+    allow: /^confirm_token/i,
+  },
+  { name: "url_credentials", regex: /(\b[a-z][a-z0-9+.-]*:\/\/[^\s:@/]+:)([^\s@/]+)(?=@)/gi, keepPrefix: true },
+];
+
+function detectors(): Detector[] {
+  const config: RedactionConfig = getConfig().redaction || {};
+  if (config.enabled === false) {
+    return [];
+  }
+
+  const custom = (config.patterns || []).map((entry, i) => ({
+    name: entry.name || `custom_${i + 1}`,
+    regex: new RegExp(entry.pattern, (entry.flags || "").replace(/g/g, "") + "g"),
+    keepPrefix: false,
+  }));
+
+  return [...BUILTIN_DETECTORS, ...custom];
+}
+
+export function redact(text: string): RedactionResult {
+  const result: RedactionResult = { text, count: 0, kinds: {} };
+
+  for (const detector of detectors()) {
+    detector.regex.lastIndex = 0;
+    result.text = result.text.replace(detector.regex, (match, prefix) => {
+      if (match.includes(REDACTION_MARKER) || detector.allow?.test(match)) {
+        return match;
+      }
+      result.count += 1;
+      result.kinds[detector.name] = (result.kinds[detector.name] || 0) + 1;
+      return (detector.keepPrefix ? prefix : "") + `[REDACTED:${detector.name}]`;
+    });
+  }
+
+  return result;
+}
+
+export function assertNoRedactionMarkers(text: string, what: string): void {
+  if (text.includes(REDACTION_MARKER)) {
+    throw new Error(
+      `${what} contains a ${REDACTION_MARKER}...] marker from a redacted tool result; writing it would replace ` +
+      `the secret with the marker. Put the real value back, or pass allow_redacted: true to write the marker as is`
+    );
+  }
+}
+
+export function redactSecrets(text: string): string {
+  return redact(text).text;
+}
+
+export function redactToolResult<T extends { content: Array<{ type: string; text?: string }> }>(result: T): T {
+  let count = 0;
+  const kinds: Record<string, number> = {};
+
+  const content = result.content.map((item) => {
+    if (item.type !== "text" || !item.text) {
+      return item;
+    }
+    const redacted = redact(item.text);
+    count += redacted.count;
+    for (const [kind, n] of Object.entries(redacted.kinds)) {
+      kinds[kind] = (kinds[kind] || 0) + n;
+    }
+    return { ...item, text: redacted.text };
+  });
+
+  if (count > 0) {
+    const summary = Object.entries(kinds).map(([kind, n]) => `${kind} x${n}`).join(", ");
+    content.push({ type: "text", text: `(${count} secret(s) redacted: ${summary})` });
+  }
+
+  return { ...result, content };
+}
@@ -0,0 +1,123 @@
+/**
+ * Copyright (c) 2025 tranhuucanh39@gmail.com
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import xterm from "@xterm/headless";
+import type { TerminalSession } from "./session.js";
+
+export type Screen = xterm.Terminal;
+
+export interface ScreenshotOptions {
+  cursor?: boolean;
+  colors?: boolean;
+}
+
+const ANSI_COLORS = ["black", "red", "green", "yellow", "blue", "magenta", "cyan", "white"];
+
+export function createScreen(cols: number, rows: number): Screen {
+  return new xterm.Terminal({ cols, rows, scrollback: 1000, allowProposedApi: true });
+}
+
+function flushScreen(screen: Screen): Promise<void> {
+  return new Promise((resolve) => screen.write("", resolve));
+}
+
+function colorName(mode: "fg" | "bg", cell: xterm.IBufferCell): string | null {
+  const isDefault = mode === "fg" ? cell.isFgDefault() : cell.isBgDefault();
+  if (isDefault) {
+    return null;
+  }
+
+  const color = mode === "fg" ? cell.getFgColor() : cell.getBgColor();
+  const isRgb = mode === "fg" ? cell.isFgRGB() : cell.isBgRGB();
+  if (isRgb) {
+    return `#${color.toString(16).padStart(6, "0")}`;
+  }
+  if (color < 8) {
+    return ANSI_COLORS[color];
+  }
+  if (color < 16) {
+    return `bright-${ANSI_COLORS[color - 8]}`;
+  }
+  return `color${color}`;
+}
+
+function cellStyle(cell: xterm.IBufferCell): string {
+  const parts: string[] = [];
+  const fg = colorName("fg", cell);
+  const bg = colorName("bg", cell);
+
+  if (fg) parts.push(`fg=${fg}`);
+  if (bg) parts.push(`bg=${bg}`);
+  if (cell.isBold()) parts.push("bold");
+  if (cell.isDim()) parts.push("dim");
+  if (cell.isItalic()) parts.push("italic");
+  if (cell.isUnderline()) parts.push("underline");
+  if (cell.isInverse()) parts.push("inverse");
+
+  return parts.join(" ");
+}
+
+function lineStyles(line: xterm.IBufferLine, cols: number, row: number): string[] {
+  const spans: string[] = [];
+  let current = "";
+  let start = 0;
+
+  for (let x = 0; x <= cols; x++) {
+    const cell = x < cols ? line.getCell(x) : undefined;
+    const style = cell ? cellStyle(cell) : "";
+
+    if (style !== current) {
+      if (current) {
+        spans.push(`  row ${row}, cols ${start + 1}-${x}: ${current}`);
+      }
+      current = style;
+      start = x;
+    }
+  }
+
+  return spans;
+}
+
+export async function captureScreen(session: TerminalSession, options: ScreenshotOptions = {}): Promise<string> {
+  const snapshot = session.ptyProcess.snapshot?.();
+  const screen = snapshot ? createScreen(snapshot.cols, snapshot.rows) : session.screen;
+  if (snapshot) {
+    screen.write(snapshot.data);
+  }
+  await flushScreen(screen);
+
+  const buffer = screen.buffer.active;
+  const rows: string[] = [];
+  const styles: string[] = [];
+
+  for (let y = 0; y < screen.rows; y++) {
+    const line = buffer.getLine(buffer.viewportY + y);
+    rows.push(line ? line.translateToString(true) : "");
+    if (options.colors && line) {
+      styles.push(...lineStyles(line, screen.cols, y + 1));
+    }
+  }
+
+  while (rows.length > 0 && rows[rows.length - 1] === "" && (!options.cursor || rows.length > buffer.cursorY + 1)) {
+    rows.pop();
+  }
+
+  const alternate = snapshot ? snapshot.alternate : buffer.type === "alternate";
+  let header = `Screen ${screen.cols}x${screen.rows} (${alternate ? "full-screen program" : "normal buffer"})`;
+  if (options.cursor) {
+    header += `, cursor at row ${buffer.cursorY + 1}, col ${Math.min(buffer.cursorX + 1, screen.cols)}`;
+  }
+
+  if (snapshot) {
+    screen.dispose();
+  }
+
+  return (
+    `${header}\n\n${rows.join("\n")}` +
+    (options.colors ? `\n\nStyles:\n${styles.length > 0 ? styles.join("\n") : "  (default colors only)"}` : "")
+  );
+}
@@ -0,0 +1,111 @@
+/**
+ * Copyright (c) 2025 tranhuucanh39@gmail.com
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+export interface Scrollback {
+  data: string;
+  start: number;
+  limit: number;
+}
+
+export interface CommandRecord {
+  index: number;
+  command: string;
+  startOffset: number;
+  endOffset: number | null;
+  exitCode: number | null;
+  startedAt: Date;
+  durationMs: number | null;
+}
+
+export interface ScrollbackSlice {
+  text: string;
+  from: number;
+  to: number;
+  dropped: boolean;
+}
+
+export const SCROLLBACK_LIMIT = 2 * 1024 * 1024;
+export const MAX_HISTORY_ENTRIES = 500;
+
+export function createScrollback(limit: number = SCROLLBACK_LIMIT): Scrollback {
+  return { data: "", start: 0, limit };
+}
+
+export function appendScrollback(scrollback: Scrollback, text: string): void {
+  scrollback.data += text;
+
+  if (scrollback.data.length > scrollback.limit * 1.25) {
+    const drop = scrollback.data.length - scrollback.limit;
+    scrollback.data = scrollback.data.substring(drop);
+    scrollback.start += drop;
+  }
+}
+
+export function scrollbackEnd(scrollback: Scrollback): number {
+  return scrollback.start + scrollback.data.length;
+}
+
+export function readScrollback(scrollback: Scrollback, from: number = scrollback.start, to?: number): ScrollbackSlice {
+  const end = scrollbackEnd(scrollback);
+  const validFrom = Math.min(Math.max(from, scrollback.start), end);
+  const validTo = Math.min(Math.max(to ?? end, validFrom), end);
+
+  return {
+    text: scrollback.data.substring(validFrom - scrollback.start, validTo - scrollback.start),
+    from: validFrom,
+    to: validTo,
+    dropped: from < scrollback.start,
+  };
+}
+
+export function recordCommand(history: CommandRecord[], command: string, startOffset: number): CommandRecord {
+  const record: CommandRecord = {
+    index: history.length > 0 ? history[history.length - 1].index + 1 : 1,
+    command,
+    startOffset,
+    endOffset: null,
+    exitCode: null,
+    startedAt: new Date(),
+    durationMs: null,
+  };
+
+  history.push(record);
+  if (history.length > MAX_HISTORY_ENTRIES) {
+    history.splice(0, history.length - MAX_HISTORY_ENTRIES);
+  }
+
+  return record;
+}
+
+export function findCommand(history: CommandRecord[], index: number): CommandRecord {
+  const record = index < 0 ? history[history.length + index] : history.find((entry) => entry.index === index);
+
+  if (!record) {
+    const range = history.length > 0 ? `${history[0].index}-${history[history.length - 1].index}` : "none";
+    throw new Error(
+      `Command ${index} not found in session history (available: ${range}). ` +
+      `Negative values count back from the most recent command.`
+    );
+  }
+
+  return record;
+}
+
+export function formatHistory(history: CommandRecord[], limit: number = 50): string {
+  if (history.length === 0) {
+    return "No commands in history";
+  }
+
+  return history
+    .slice(-limit)
+    .map((record) => {
+      const status = record.endOffset === null ? "running or timed out" : `exit ${record.exitCode}`;
+      const duration = record.durationMs !== null ? `, ${record.durationMs}ms` : "";
+      return `  #${record.index} [${status}${duration}] ${record.command}`;
+    })
+    .join("\n");
+}
@@ -0,0 +1,563 @@
+/**
+ * Copyright (c) 2025 tranhuucanh39@gmail.com
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import * as pty from "node-pty";
+import * as os from "os";
+import { audit } from "./audit.js";
+import { getConfig } from "./config.js";
+import {
+  createContext,
+  DegradedState,
+  findDisconnectMessage,
+  formatLocation,
+  isIntentionalExit,
+  SessionContext,
+  ShellFrame,
+  sshHops,
+  updateContext,
+} from "./context.js";
+import { attachDetachedPty, isDetachedMode, listDaemonSessions, spawnDetachedPty } from "./daemon.js";
+import type { Job } from "./jobs.js";
+import type { StoredOutput } from "./output.js";
+import { createScreen, Screen } from "./screen.js";
+import {
+  appendScrollback,
+  CommandRecord,
+  createScrollback,
+  recordCommand,
+  Scrollback,
+  scrollbackEnd,
+} from "./scrollback.js";
+import type { SshTarget } from "./ssh.js";
+import { attachTmuxPty, listTmuxWindows, spawnTmuxPty, tmuxAvailable } from "./tmux.js";
+import {
+  buildCommandMarkers,
+  handoverTrailer,
+  nextMarkerId,
+  noopCommand,
+  parseCommandOutput,
+  partialCommandOutput,
+  probedShellFamily,
+  shellIntegrationScript,
+} from "./integration.js";
+import { ShellFamily, shellFamilyOf } from "./quoting.js";
+import { sleep } from "./utils.js";
+
+export interface PtyLike {
+  pid: number;
+  write(data: string): void;
+  resize(cols: number, rows: number): void;
+  kill(signal?: string): void;
+  onData(listener: (data: string) => void): { dispose(): void };
+  onExit(listener: (event: { exitCode: number; signal?: number }) => void): { dispose(): void };
+  snapshot?(): { cols: number; rows: number; alternate: boolean; data: string };
+  updateMeta?(changes: Partial<SessionMetadata>): void;
+}
+
+export type SessionBackend = "pty" | "tmux";
+
+export interface TerminalSession {
+  id: string;
+  ptyProcess: PtyLike;
+  backend: SessionBackend;
+  context: SessionContext;
+  shellFamily: ShellFamily;
+  degraded: DegradedState | null;
+  disconnectHint: string | null;
+  scrollback: Scrollback;
+  screen: Screen;
+  history: CommandRecord[];
+  expectOffset: number;
+  isReady: boolean;
+  promptPattern: RegExp;
+  lastCommand: string;
+  pendingInput: string;
+  interrupts: number;
+  createdAt: Date;
+  jobs: Map<string, Job>;
+  outputs: Map<string, StoredOutput>;
+  target: SshTarget | null;
+  profile: string | null;
+  policy: string | null;
+}
+
+export interface LostSession {
+  id: string;
+  target: SshTarget;
+  profile: string | null;
+  policy: string | null;
+  backend: SessionBackend;
+  frames: ShellFrame[];
+  cwd: string | null;
+  reason: string;
+  lostAt: Date;
+}
+
+export interface SessionOptions {
+  args?: string[];
+  cwd?: string;
+  env?: Record<string, string>;
+  target?: SshTarget;
+  profile?: string;
+  policy?: string;
+  backend?: SessionBackend;
+}
+
+export interface SessionMetadata {
+  shell: string;
+  shellFamily?: ShellFamily;
+  backend: SessionBackend;
+  target: SshTarget | null;
+  profile: string | null;
+  policy: string | null;
+  createdAt: string;
+  jobs?: Job[];
+}
+
+export interface CommandResult {
+  command: string;
+  exitCode: number;
+  durationMs: number;
+  cwd: string | null;
+  stdout: string;
+  stderr: string | null;
+  truncated: boolean;
+  outputId: string | null;
+}
+
+export interface RunCommandOptions {
+  separateStderr?: boolean;
+  label?: string;
+  allowDegraded?: boolean;
+}
+
+export class CommandTimeoutError extends Error {
+  constructor(
+    public readonly timeout: number,
+    public readonly output: string
+  ) {
+    super(`Command timeout after ${timeout}ms. Command might still be running or waiting for input.`);
+    this.name = "CommandTimeoutError";
+  }
+}
+
+export const TERMINAL_COLS = 160;
+export const TERMINAL_ROWS = 40;
+export const MAX_OUTPUT_LENGTH = 8 * 1024 * 1024;
+export const RESTORE_REFRESH_TIMEOUT = 5000;
+export const DISCONNECT_CHECK_TIMEOUT = 10000;
+
+export const sessions = new Map<string, TerminalSession>();
+export const lostSessions = new Map<string, LostSession>();
+
+export function createSession(sessionId: string, shell?: string, options: SessionOptions = {}): TerminalSession {
+  const shellPath = shell || (os.platform() === "win32" ? "powershell.exe" : process.env.SHELL || "/bin/bash");
+
+  const spawnOptions: pty.IPtyForkOptions = {
+    name: "xterm-256color",
+    cols: TERMINAL_COLS,
+    rows: TERMINAL_ROWS,
+    cwd: options.cwd || process.env.HOME || process.cwd(),
+    env: {
+      ...process.env,
+      ...options.env,
+      TERM: "xterm-256color",
+      PS1: "[READY]\\$ ",
+      SSH_ASKPASS: "",
+      GIT_TERMINAL_PROMPT: "0",
+    },
+  };
+  const backend = options.backend || getConfig().backend || "pty";
+  const meta: SessionMetadata = {
+    shell: [shellPath, ...(options.args || [])].join(" "),
+    shellFamily: shellFamilyOf(shellPath),
+    backend,
+    target: options.target || null,
+    profile: options.profile || null,
+    policy: options.policy || null,
+    createdAt: new Date().toISOString(),
+  };
+
+  let ptyProcess: PtyLike;
+  if (backend === "tmux") {
+    ptyProcess = spawnTmuxPty(sessionId, shellPath, options.args || [], spawnOptions, meta);
+  } else if (isDetachedMode()) {
+    ptyProcess = spawnDetachedPty(sessionId, shellPath, options.args || [], spawnOptions, meta);
+  } else {
+    ptyProcess = pty.spawn(shellPath, options.args || [], spawnOptions);
+  }
+
+  const session = registerSession(sessionId, ptyProcess, meta);
+  audit("session_create", session, { command: meta.shell });
+  return session;
+}
+
+export async function restoreDetachedSessions(): Promise<TerminalSession[]> {
+  const restored: TerminalSession[] = [];
+
+  for (const info of await listDaemonSessions()) {
+    if (sessions.has(info.id)) {
+      continue;
+    }
+
+    try {
+      const { ptyProcess, backlog } = await attachDetachedPty(info);
+      restored.push(registerSession(info.id, ptyProcess, info.meta, backlog));
+    } catch (error: any) {
+      console.error(`[ShellKeeper] Could not restore session ${info.id}: ${error.message}`);
+    }
+  }
+
+  return restored;
+}
+
+export function restoreTmuxSessions(): TerminalSession[] {
+  if (!tmuxAvailable()) {
+    return [];
+  }
+
+  const restored: TerminalSession[] = [];
+  for (const window of listTmuxWindows()) {
+    if (sessions.has(window.name) || window.dead || !window.meta) {
+      continue;
+    }
+
+    try {
+      const { ptyProcess, backlog } = attachTmuxPty(window);
+      restored.push(registerSession(window.name, ptyProcess, window.meta, backlog));
+    } catch (error: any) {
+      console.error(`[ShellKeeper] Could not restore tmux session ${window.name}: ${error.message}`);
+    }
+  }
+
+  return restored;
+}
+
+function registerSession(
+  sessionId: string,
+  ptyProcess: PtyLike,
+  meta: SessionMetadata,
+  backlog: string = ""
+): TerminalSession {
+  const session: TerminalSession = {
+    id: sessionId,
+    ptyProcess,
+    backend: meta.backend || "pty",
+    context: createContext(),
+    shellFamily: meta.shellFamily || shellFamilyOf(meta.shell),
+    degraded: null,
+    disconnectHint: null,
+    scrollback: createScrollback(),
+    screen: createScreen(TERMINAL_COLS, TERMINAL_ROWS),
+    history: [],
+    expectOffset: 0,
+    isReady: true,
+    promptPattern: /\[READY\]\$ $/,
+    lastCommand: "",
+    pendingInput: "",
+    interrupts: 0,
+    createdAt: new Date(meta.createdAt),
+    jobs: new Map(
+      (meta.jobs || []).map((job) => [
+        job.id,
+        { ...job, startedAt: new Date(job.startedAt), finishedAt: job.finishedAt ? new Date(job.finishedAt) : null },
+      ])
+    ),
+    outputs: new Map(),
+    target: meta.target,
+    profile: meta.profile,
+    policy: meta.policy,
+  };
+
+  appendScrollback(session.scrollback, backlog);
+  session.expectOffset = scrollbackEnd(session.scrollback);
+  session.screen.write(backlog, () => {
+    if (session.backend !== "tmux") {
+      session.screen.onData((response) => {
+        ptyProcess.write(response);
+      });
+    }
+  });
+
+  let watched = "";
+  ptyProcess.onData((data) => {
+    appendScrollback(session.scrollback, data);
+    session.screen.write(data);
+
+    if (session.degraded || sshHops(session.context).length === 0) {
+      watched = "";
+      return;
+    }
+    watched = (watched + data).slice(-1024);
+    const message = findDisconnectMessage(watched);
+    if (message) {
+      watched = "";
+      session.disconnectHint = message;
+    }
+  });
+
+  ptyProcess.onExit(({ exitCode, signal }) => {
+    console.error(`[ShellKeeper] Session ${sessionId} exited with code ${exitCode}, signal ${signal}`);
+    session.screen.dispose();
+    if (sessions.get(sessionId) === session) {
+      audit("session_exit", session, { exit_code: exitCode });
+      sessions.delete(sessionId);
+      const frames = [...session.context.frames, ...(session.degraded?.lostFrames || [])];
+      if (session.target && frames.length > 0) {
+        lostSessions.set(sessionId, {
+          id: sessionId,
+          target: session.target,
+          profile: session.profile,
+          policy: session.policy,
+          backend: session.backend,
+          frames,
+          cwd: session.degraded?.cwd ?? session.context.cwd,
+          reason: session.degraded?.reason ?? `ssh exited with code ${exitCode}`,
+          lostAt: new Date(),
+        });
+      }
+    }
+  });
+
+  lostSessions.delete(sessionId);
+  sessions.set(sessionId, session);
+  return session;
+}
+
+export function sessionHost(session: TerminalSession): string {
+  return session.target ? session.target.host : os.hostname();
+}
+
+export function sessionHosts(session: TerminalSession): string[] {
+  return [...new Set([sessionHost(session), ...session.context.frames.map((frame) => frame.host)])];
+}
+
+function markDegraded(session: TerminalSession, reason: string, lostFrames: ShellFrame[], cwd: string | null): void {
+  console.error(`[ShellKeeper] Session ${session.id} degraded: ${reason}`);
+  session.degraded = { reason, detectedAt: new Date(), lostFrames, cwd };
+}
+
+export function degradedMessage(session: TerminalSession): string {
+  const { degraded } = session;
+  if (!degraded) {
+    return `Session ${session.id} is not degraded`;
+  }
+
+  const lost = degraded.lostFrames.map((frame) => `${frame.user}@${frame.host}`).join(" → ");
+  return (
+    `Session ${session.id} is degraded: ${degraded.reason}. ` +
+    `It is now at ${formatLocation(session.context)}${lost ? `, no longer on ${lost}` : ""}. ` +
+    `Commands are refused until you call terminal_reconnect to replay the SSH chain, ` +
+    `or terminal_reconnect with action "acknowledge" to keep working where it is now.`
+  );
+}
+
+async function checkConnection(session: TerminalSession): Promise<void> {
+  const hint = session.disconnectHint;
+  try {
+    await runMarkedCommand(session, noopCommand(session.shellFamily), DISCONNECT_CHECK_TIMEOUT, {}, null);
+  } catch (error: any) {
+    throw new Error(`Session ${session.id} printed "${hint}" and did not answer a check afterwards: ${error.message}`);
+  }
+  if (session.degraded) {
+    throw new Error(degradedMessage(session));
+  }
+}
+
+export async function runCommand(
+  session: TerminalSession,
+  command: string,
+  timeout: number = 30000,
+  options: RunCommandOptions = {}
+): Promise<CommandResult> {
+  if (session.degraded && !options.allowDegraded) {
+    throw new Error(degradedMessage(session));
+  }
+  if (session.disconnectHint && !options.allowDegraded) {
+    await checkConnection(session);
+  }
+
+  session.lastCommand = options.label || command;
+  session.isReady = false;
+
+  const record = recordCommand(session.history, session.lastCommand, scrollbackEnd(session.scrollback));
+  session.expectOffset = record.startOffset;
+  const origin = options.label ? null : command;
+  const wasDegraded = session.degraded !== null;
+
+  try {
+    const result = await runMarkedCommand(session, command, timeout, options, origin);
+    record.endOffset = scrollbackEnd(session.scrollback);
+    record.exitCode = result.commandResult.exitCode;
+    record.durationMs = result.commandResult.durationMs;
+
+    if (!result.integrated) {
+      await runMarkedCommand(session, shellIntegrationScript(session.shellFamily), 10000, {}, origin).catch((error) => {
+        console.error(`[ShellKeeper] Could not install shell integration in session ${session.id}:`, error.message);
+      });
+    }
+
+    if (session.degraded && !wasDegraded) {
+      throw new Error(
+        `${degradedMessage(session)}\n` +
+        `The hop was lost while this command ran; check its output before retrying it.\n` +
+        `Command: ${session.lastCommand}\n` +
+        `Exit code: ${result.commandResult.exitCode}\n` +
+        `Output: ${result.commandResult.stdout || "(no output)"}`
+      );
+    }
+
+    return result.commandResult;
+  } finally {
+    session.isReady = true;
+  }
+}
+
+async function runMarkedCommand(
+  session: TerminalSession,
+  command: string,
+  timeout: number,
+  options: RunCommandOptions,
+  origin: string | null
+): Promise<{ commandResult: CommandResult; integrated: boolean }> {
+  const id = nextMarkerId();
+  const stderrFile = options.separateStderr ? `/tmp/mcp_stderr_${id}` : null;
+  const markers = buildCommandMarkers(id, command, stderrFile, session.shellFamily);
+
+  let captured = "";
+  const capture = session.ptyProcess.onData((data) => {
+    captured += data;
+  });
+
+  try {
+    const startTime = Date.now();
+    const interrupts = session.interrupts;
+    // Ctrl-E Ctrl-U first: text typed ahead through terminal_send_input must not become part of the command.
+    session.ptyProcess.write(
+      `\x05\x15${markers.commandLine}\n${markers.trailerLine}\n${markers.probeLine ? `${markers.probeLine}\n` : ""}`
+    );
+    session.pendingInput = "";
+    let handedOver = false;
+
+    while (Date.now() - startTime < timeout) {
+      if (sessions.get(session.id) !== session) {
+        throw new Error(`Session ${session.id} was closed while the command was running`);
+      }
+      if (session.interrupts !== interrupts) {
+        throw new Error(`Command was interrupted.\nOutput: ${partialCommandOutput(captured, markers) || "(no output)"}`);
+      }
+
+      const parsed = parseCommandOutput(captured, markers);
+
+      if (!parsed.complete && !handedOver) {
+        // The trailer was read by a shell of another family, which could not run it.
+        const family = probedShellFamily(captured, markers);
+        if (family && family !== session.shellFamily) {
+          handedOver = true;
+          setShellFamily(session, family);
+          session.ptyProcess.write(`${handoverTrailer(markers, family)}\n`);
+        }
+      }
+
+      if (parsed.complete) {
+        if (parsed.family && parsed.family !== session.shellFamily) {
+          setShellFamily(session, parsed.family);
+        }
+        const cwd = session.context.cwd;
+        const dropped = updateContext(session.context, parsed.context, parsed.cwd, origin);
+        const exited = session.context.exitRequested || isIntentionalExit(command);
+        const hint = session.disconnectHint;
+        session.context.exitRequested = false;
+        session.disconnectHint = null;
+        if (!exited && !session.degraded && dropped.some((frame) => frame.via === "ssh")) {
+          markDegraded(session, hint || "an SSH connection closed without an exit being requested", dropped, cwd);
+        }
+        return {
+          commandResult: buildCommandResult(
+            command,
+            parsed.exitCode,
+            Date.now() - startTime,
+            parsed.cwd,
+            parsed.stdout,
+            parsed.stderr
+          ),
+          integrated: parsed.integrated,
+        };
+      }
+
+      await sleep(50);
+    }
+
+    throw new CommandTimeoutError(timeout, partialCommandOutput(captured, markers));
+  } finally {
+    capture.dispose();
+  }
+}
+
+function setShellFamily(session: TerminalSession, family: ShellFamily): void {
+  console.error(`[ShellKeeper] Session ${session.id} is now in a ${family} shell`);
+  session.shellFamily = family;
+  session.ptyProcess.updateMeta?.({ shellFamily: family });
+}
+
+export async function resyncSession(session: TerminalSession, timeout: number): Promise<boolean> {
+  try {
+    await runMarkedCommand(session, noopCommand(session.shellFamily), timeout, {}, null);
+    session.expectOffset = scrollbackEnd(session.scrollback);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function refreshRestoredSession(session: TerminalSession): Promise<void> {
+  await new Promise<void>((resolve) => session.screen.write("", resolve));
+  if (session.screen.buffer.active.type === "alternate" || !(await resyncSession(session, RESTORE_REFRESH_TIMEOUT))) {
+    console.error(`[ShellKeeper] Session ${session.id} is busy; its location will be known after its next command`);
+  }
+}
+
+function buildCommandResult(
+  command: string,
+  exitCode: number,
+  durationMs: number,
+  cwd: string | null,
+  stdout: string,
+  stderr: string | null
+): CommandResult {
+  const truncated = stdout.length > MAX_OUTPUT_LENGTH || (stderr !== null && stderr.length > MAX_OUTPUT_LENGTH);
+
+  return {
+    command,
+    exitCode,
+    durationMs,
+    cwd,
+    stdout: stdout.substring(0, MAX_OUTPUT_LENGTH),
+    stderr: stderr === null ? null : stderr.substring(0, MAX_OUTPUT_LENGTH),
+    truncated,
+    outputId: null,
+  };
+}
+
+export async function executeCommand(
+  session: TerminalSession,
+  command: string,
+  timeout: number = 30000,
+  options: RunCommandOptions = {}
+): Promise<string> {
+  const result = await runCommand(session, command, timeout, options);
+
+  if (result.exitCode !== 0) {
+    throw new Error(
+      `Command exited with code ${result.exitCode}\n` +
+      `Command: ${options.label || command}\n` +
+      `Output: ${result.stdout || "(no output)"}`
+    );
+  }
+
+  return result.stdout;
+}
@@ -0,0 +1,212 @@
+/**
+ * Copyright (c) 2025 tranhuucanh39@gmail.com
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { createSession, runCommand, SessionOptions, sessions, TerminalSession } from "./session.js";
+import { cleanOutput } from "./utils.js";
+
+export type KnownHostsPolicy = "strict" | "accept-new" | "no-check";
+
+export type SshFailureReason =
+  | "auth_failed"
+  | "host_key_verification_failed"
+  | "host_unresolved"
+  | "connection_refused"
+  | "connection_timeout"
+  | "host_unreachable"
+  | "identity_file_error"
+  | "unknown";
+
+export interface SshTarget {
+  host: string;
+  user?: string;
+  port?: number;
+  identityFile?: string;
+  agentForwarding?: boolean;
+  jumpHosts?: string[];
+  knownHostsPolicy?: KnownHostsPolicy;
+  options?: string[];
+}
+
+export class SshConnectionError extends Error {
+  constructor(
+    public readonly reason: SshFailureReason,
+    public readonly target: SshTarget,
+    public readonly exitCode: number | null,
+    public readonly output: string
+  ) {
+    super(`SSH connection to ${formatSshTarget(target)} failed: ${reason}`);
+    this.name = "SshConnectionError";
+  }
+
+  toJSON() {
+    return {
+      error: "ssh_connection_failed",
+      reason: this.reason,
+      host: this.target.host,
+      user: this.target.user || null,
+      port: this.target.port || 22,
+      jump_hosts: this.target.jumpHosts || [],
+      exit_code: this.exitCode,
+      message: this.message,
+      output: this.output,
+    };
+  }
+}
+
+export const SSH_CONNECT_TIMEOUT = 30000;
+
+const FAILURE_PATTERNS: Array<[RegExp, SshFailureReason]> = [
+  [/Permission denied|Too many authentication failures|no more authentication methods/i, "auth_failed"],
+  [/Host key verification failed|REMOTE HOST IDENTIFICATION HAS CHANGED|No .* host key is known/i, "host_key_verification_failed"],
+  [/Could not resolve hostname|Name or service not known|nodename nor servname/i, "host_unresolved"],
+  [/Connection refused/i, "connection_refused"],
+  [/Connection timed out|Operation timed out|timed out during banner exchange/i, "connection_timeout"],
+  [/No route to host|Network is unreachable/i, "host_unreachable"],
+  [/Identity file .* not accessible|Load key .*: (No such file|bad permissions|invalid format)/i, "identity_file_error"],
+];
+
+const FORBIDDEN_SSH_OPTIONS = ["proxycommand", "localcommand", "permitlocalcommand", "knownhostscommand"];
+
+function checkSshTarget(target: SshTarget): void {
+  for (const host of [target.host, ...(target.jumpHosts || [])]) {
+    if (!host || host.startsWith("-")) {
+      throw new Error(`Invalid SSH host "${host}": host names cannot be empty or start with "-"`);
+    }
+  }
+  if (target.user && target.user.startsWith("-")) {
+    throw new Error(`Invalid SSH user "${target.user}": user names cannot start with "-"`);
+  }
+
+  for (const option of target.options || []) {
+    const key = option.trim().split(/[\s=]/)[0];
+    if (FORBIDDEN_SSH_OPTIONS.includes(key.toLowerCase())) {
+      throw new Error(`SSH option ${key} is not allowed: it runs local commands outside the command policy`);
+    }
+  }
+}
+
+export function formatSshTarget(target: SshTarget): string {
+  const userHost = target.user ? `${target.user}@${target.host}` : target.host;
+  const port = target.port && target.port !== 22 ? `:${target.port}` : "";
+  const via = target.jumpHosts && target.jumpHosts.length > 0 ? ` via ${target.jumpHosts.join(" -> ")}` : "";
+  return `${userHost}${port}${via}`;
+}
+
+export function buildSshArgs(target: SshTarget, connectTimeout: number): string[] {
+  checkSshTarget(target);
+  const args: string[] = ["-tt"];
+
+  if (target.port) {
+    args.push("-p", String(target.port));
+  }
+
+  if (target.user) {
+    args.push("-l", target.user);
+  }
+
+  if (target.identityFile) {
+    args.push("-i", target.identityFile, "-o", "IdentitiesOnly=yes");
+  }
+
+  args.push(target.agentForwarding ? "-A" : "-a");
+
+  if (target.jumpHosts && target.jumpHosts.length > 0) {
+    args.push("-J", target.jumpHosts.join(","));
+  }
+
+  switch (target.knownHostsPolicy || "accept-new") {
+    case "strict":
+      args.push("-o", "StrictHostKeyChecking=yes");
+      break;
+    case "accept-new":
+      args.push("-o", "StrictHostKeyChecking=accept-new");
+      break;
+    case "no-check":
+      args.push("-o", "StrictHostKeyChecking=no", "-o", "UserKnownHostsFile=/dev/null", "-o", "LogLevel=ERROR");
+      break;
+  }
+
+  args.push(
+    "-o", "BatchMode=yes",
+    "-o", `ConnectTimeout=${Math.max(1, Math.ceil(connectTimeout / 1000))}`,
+    "-o", "ServerAliveInterval=30"
+  );
+
+  for (const option of target.options || []) {
+    args.push("-o", option);
+  }
+
+  args.push("--", target.host);
+  return args;
+}
+
+function connectionOutput(transcript: string): string {
+  return cleanOutput(transcript)
+    .split("\n")
+    .filter((line) => !line.includes("]133;") && !line.includes("__sk_ec") && !/\$fish_pid|^sk[0-9a-z]+F;/.test(line))
+    .join("\n")
+    .trim();
+}
+
+export function classifySshFailure(output: string): SshFailureReason {
+  for (const [pattern, reason] of FAILURE_PATTERNS) {
+    if (pattern.test(output)) {
+      return reason;
+    }
+  }
+  return "unknown";
+}
+
+export async function connectSsh(
+  sessionId: string,
+  target: SshTarget,
+  timeout: number = SSH_CONNECT_TIMEOUT,
+  options: Pick<SessionOptions, "profile" | "policy" | "backend"> = {}
+): Promise<TerminalSession> {
+  if (sessions.has(sessionId)) {
+    throw new Error(
+      `Session ${sessionId} already exists. ` +
+      `Use terminal_close_session first if you want to recreate it.`
+    );
+  }
+
+  const session = createSession(sessionId, "ssh", {
+    ...options,
+    args: buildSshArgs(target, timeout),
+    target,
+  });
+
+  let transcript = "";
+  session.ptyProcess.onData((data) => {
+    transcript += data;
+  });
+
+  const exited = new Promise<number>((resolve) => {
+    session.ptyProcess.onExit(({ exitCode }) => resolve(exitCode));
+  });
+
+  const connected = runCommand(session, "true", timeout).then(() => null);
+
+  let outcome: number | null;
+  try {
+    outcome = await Promise.race([connected, exited]);
+  } catch (e) {
+    session.ptyProcess.kill();
+    sessions.delete(sessionId);
+    const output = connectionOutput(transcript);
+    const reason = classifySshFailure(output);
+    throw new SshConnectionError(reason === "unknown" ? "connection_timeout" : reason, target, null, output);
+  }
+
+  if (outcome !== null) {
+    sessions.delete(sessionId);
+    const output = connectionOutput(transcript);
+    throw new SshConnectionError(classifySshFailure(output), target, outcome, output);
+  }
+
+  return session;
+}
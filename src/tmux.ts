@@ -0,0 +1,261 @@
+/**
+ * Copyright (c) 2025 tranhuucanh39@gmail.com
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { execFileSync, spawnSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { IPtyForkOptions } from "node-pty";
+import { StringDecoder } from "string_decoder";
+import type { PtyLike, SessionMetadata } from "./session.js";
+import { shellQuote } from "./quoting.js";
+
+export interface TmuxWindowInfo {
+  windowId: string;
+  name: string;
+  pid: number;
+  dead: boolean;
+  meta: SessionMetadata | null;
+}
+
+export const TMUX_SESSION = "shellkeeper";
+export const TMUX_META_OPTION = "@shellkeeper_meta";
+export const TMUX_POLL_INTERVAL = 50;
+export const TMUX_STATUS_INTERVAL = 1000;
+export const MAX_TMUX_LOG_SIZE = 8 * 1024 * 1024;
+export const TMUX_SEND_KEYS_CHUNK = 4 * 1024;
+
+const TMUX_LOG_DIR = path.join(os.tmpdir(), `shellkeeper-tmux-${os.userInfo().uid}`);
+
+function tmux(args: string[]): string {
+  try {
+    return execFileSync("tmux", args, { encoding: "utf8", stdio: ["ignore", "pipe", "pipe"] }).trim();
+  } catch (error: any) {
+    const detail = (error.stderr || error.message || "").toString().trim();
+    throw new Error(`tmux ${args[0]} failed: ${detail}`);
+  }
+}
+
+export function tmuxAvailable(): boolean {
+  return spawnSync("tmux", ["-V"], { stdio: "ignore" }).status === 0;
+}
+
+export function tmuxAttachCommand(sessionId: string): string {
+  return `tmux attach -t ${shellQuote(`${TMUX_SESSION}:${sessionId}`)}`;
+}
+
+export function listTmuxWindows(): TmuxWindowInfo[] {
+  if (spawnSync("tmux", ["has-session", "-t", `=${TMUX_SESSION}`], { stdio: "ignore" }).status !== 0) {
+    return [];
+  }
+
+  const format = `#{window_id} #{pane_pid} #{pane_dead} #{window_name} #{${TMUX_META_OPTION}}`;
+  return tmux(["list-windows", "-t", `=${TMUX_SESSION}`, "-F", format])
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => {
+      const [windowId, pid, dead, name, ...rest] = line.split(" ");
+      const meta = rest.join(" ");
+      let parsed: SessionMetadata | null = null;
+      try {
+        parsed = meta ? JSON.parse(meta) : null;
+      } catch (e) {
+        parsed = null;
+      }
+      return { windowId, name, pid: parseInt(pid, 10), dead: dead === "1", meta: parsed };
+    });
+}
+
+export function spawnTmuxPty(
+  sessionId: string,
+  file: string,
+  args: string[],
+  options: IPtyForkOptions,
+  meta: SessionMetadata
+): PtyLike {
+  if (!tmuxAvailable()) {
+    throw new Error("The tmux backend needs tmux installed and on PATH");
+  }
+  if (listTmuxWindows().some((window) => window.name === sessionId)) {
+    throw new Error(
+      `tmux window ${TMUX_SESSION}:${sessionId} already exists. ` +
+      `Close it with: tmux kill-window -t ${TMUX_SESSION}:${sessionId}`
+    );
+  }
+
+  // Passed with -e so tmux sets them in the pane, instead of an `env KEY=VALUE` command line anyone can read in ps.
+  const environment = Object.entries(options.env || {})
+    .filter(([key, value]) => key !== "TERM" && value !== undefined && value !== process.env[key])
+    .flatMap(([key, value]) => ["-e", `${key}=${value}`]);
+  const command = [file, ...args];
+  const cwd = options.cwd || os.homedir();
+
+  const hasSession = spawnSync("tmux", ["has-session", "-t", `=${TMUX_SESSION}`], { stdio: "ignore" }).status === 0;
+  const windowId = hasSession
+    ? tmux([
+        "new-window", "-d", "-P", "-F", "#{window_id}", "-t", `${TMUX_SESSION}:`, "-n", sessionId, "-c", cwd,
+        ...environment, ...command,
+      ])
+    : tmux([
+        "new-session", "-d", "-P", "-F", "#{window_id}", "-s", TMUX_SESSION, "-n", sessionId,
+        "-x", String(options.cols || 160), "-y", String(options.rows || 40), "-c", cwd, ...environment, ...command,
+      ]);
+
+  tmux(["set-option", "-w", "-t", windowId, "remain-on-exit", "on"]);
+  tmux(["set-option", "-w", "-t", windowId, TMUX_META_OPTION, JSON.stringify(meta)]);
+
+  return tmuxPty(windowId);
+}
+
+export function attachTmuxPty(window: TmuxWindowInfo): { ptyProcess: PtyLike; backlog: string } {
+  const backlog = tmux(["capture-pane", "-p", "-e", "-J", "-S", "-1000", "-t", window.windowId]);
+  return { ptyProcess: tmuxPty(window.windowId), backlog: backlog.replace(/\n/g, "\r\n") + "\r\n" };
+}
+
+/**
+ * Pane output is piped into a log file that is polled. To keep the file small
+ * the pipe is re-pointed at a new file instead of truncating the one `cat` is
+ * still appending to: the old file is read to the end once its `cat` has
+ * exited (it removes a `.open` marker when it does), then deleted.
+ */
+function tmuxPty(windowId: string): PtyLike {
+  fs.mkdirSync(TMUX_LOG_DIR, { recursive: true, mode: 0o700 });
+  const prefix = `${windowId.replace("@", "window-")}.`;
+  for (const stale of fs.readdirSync(TMUX_LOG_DIR).filter((name) => name.startsWith(prefix))) {
+    fs.rmSync(path.join(TMUX_LOG_DIR, stale), { force: true });
+  }
+
+  const logFile = (generation: number) => path.join(TMUX_LOG_DIR, `${prefix}${generation}.log`);
+  const pipeTo = (generation: number) => {
+    const file = logFile(generation);
+    fs.writeFileSync(file, "", { mode: 0o600 });
+    fs.writeFileSync(`${file}.open`, "", { mode: 0o600 });
+    tmux(["pipe-pane", "-t", windowId, "-O", `cat >> ${shellQuote(file)}; rm -f ${shellQuote(`${file}.open`)}`]);
+  };
+  pipeTo(0);
+
+  const dataListeners = new Set<(data: string) => void>();
+  const exitListeners = new Set<(event: { exitCode: number; signal?: number }) => void>();
+  const decoder = new StringDecoder("utf8");
+  let piped = 0;
+  let reading = 0;
+  let offset = 0;
+  let lastStatusCheck = Date.now();
+  let exited = false;
+
+  const finish = (exitCode: number) => {
+    if (exited) {
+      return;
+    }
+    exited = true;
+    clearInterval(timer);
+    for (let generation = reading; generation <= piped; generation++) {
+      fs.rmSync(logFile(generation), { force: true });
+      fs.rmSync(`${logFile(generation)}.open`, { force: true });
+    }
+    exitListeners.forEach((listener) => listener({ exitCode }));
+  };
+
+  const readLog = (file: string) => {
+    const size = fs.statSync(file).size;
+    if (size > offset) {
+      const buffer = Buffer.alloc(size - offset);
+      const fd = fs.openSync(file, "r");
+      fs.readSync(fd, buffer, 0, buffer.length, offset);
+      fs.closeSync(fd);
+      offset = size;
+
+      const data = decoder.write(buffer);
+      if (data) {
+        dataListeners.forEach((listener) => listener(data));
+      }
+    }
+  };
+
+  const poll = () => {
+    try {
+      const file = logFile(reading);
+      const closed = reading < piped && !fs.existsSync(`${file}.open`);
+      readLog(file);
+      if (closed) {
+        fs.rmSync(file, { force: true });
+        reading += 1;
+        offset = 0;
+      } else if (reading === piped && offset > MAX_TMUX_LOG_SIZE) {
+        piped += 1;
+        pipeTo(piped);
+      }
+    } catch (e) {
+      lastStatusCheck = 0;
+    }
+
+    if (Date.now() - lastStatusCheck >= TMUX_STATUS_INTERVAL) {
+      lastStatusCheck = Date.now();
+      try {
+        const [dead, status] = tmux(["display-message", "-p", "-t", windowId, "#{pane_dead} #{pane_dead_status}"]).split(" ");
+        if (dead === "1") {
+          tmux(["kill-window", "-t", windowId]);
+          finish(parseInt(status, 10) || 0);
+        }
+      } catch (e) {
+        finish(0);
+      }
+    }
+  };
+
+  const timer = setInterval(poll, TMUX_POLL_INTERVAL);
+  timer.unref();
+
+  return {
+    pid: parseInt(tmux(["display-message", "-p", "-t", windowId, "#{pane_pid}"]), 10),
+    write: (data) => {
+      for (let start = 0; start < data.length && !exited; ) {
+        let end = Math.min(start + TMUX_SEND_KEYS_CHUNK, data.length);
+        if (end < data.length && /[\ud800-\udbff]/.test(data[end - 1])) {
+          end -= 1;
+        }
+        tmux(["send-keys", "-t", windowId, "-l", "--", data.substring(start, end)]);
+        start = end;
+      }
+    },
+    resize: (cols, rows) => {
+      tmux(["resize-window", "-t", windowId, "-x", String(cols), "-y", String(rows)]);
+    },
+    kill: () => {
+      try {
+        tmux(["kill-window", "-t", windowId]);
+      } catch (e) {
+        console.error(`[ShellKeeper] tmux window ${windowId} was already closed`);
+      }
+      finish(0);
+    },
+    updateMeta: (changes) => {
+      const current = JSON.parse(tmux(["show-options", "-w", "-v", "-t", windowId, TMUX_META_OPTION]) || "{}");
+      tmux(["set-option", "-w", "-t", windowId, TMUX_META_OPTION, JSON.stringify({ ...current, ...changes })]);
+    },
+    onData: (listener) => {
+      dataListeners.add(listener);
+      return { dispose: () => dataListeners.delete(listener) };
+    },
+    onExit: (listener) => {
+      exitListeners.add(listener);
+      return { dispose: () => exitListeners.delete(listener) };
+    },
+    snapshot: () => {
+      const [cols, rows, cursorX, cursorY, alternate] = tmux([
+        "display-message", "-p", "-t", windowId, "#{pane_width} #{pane_height} #{cursor_x} #{cursor_y} #{alternate_on}",
+      ]).split(" ").map((value) => parseInt(value, 10));
+      const screen = tmux(["capture-pane", "-p", "-e", "-t", windowId]);
+      return {
+        cols,
+        rows,
+        alternate: alternate === 1,
+        data: screen.split("\n").join("\r\n") + `\x1b[${cursorY + 1};${cursorX + 1}H`,
+      };
+    },
+  };
+}
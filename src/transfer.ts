@@ -0,0 +1,548 @@
+/**
+ * Copyright (c) 2025 tranhuucanh39@gmail.com
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as zlib from "zlib";
+import { executeCommand, sessionHost, TerminalSession } from "./session.js";
+import {
+  parsePrintedValue,
+  posixCommand,
+  printValueCommand,
+  quotePath,
+  shellQuote,
+  ShellFamily,
+} from "./quoting.js";
+
+export interface TransferOptions {
+  timeout?: number;
+  resume?: boolean;
+  compress?: boolean;
+  overwrite?: boolean;
+  onProgress?: (transferred: number, total: number) => void;
+}
+
+export interface TransferResult {
+  localPath: string;
+  remotePath: string;
+  size: number;
+  sha256: string;
+  listing: string;
+  summary: string;
+}
+
+interface RemoteInfo {
+  path: string;
+  size: number | null;
+  sha256: string | null;
+  decode: string;
+  gzip: boolean;
+}
+
+interface TransferManifest {
+  direction: "upload" | "download";
+  localPath: string;
+  remotePath: string;
+  size: number;
+  sha256: string | null;
+  chunkSize: number;
+  updatedAt: string;
+}
+
+export const MAX_FILE_SIZE = 1024 * 1024 * 1024;
+export const FILE_TRANSFER_TIMEOUT = 300000;
+export const MAX_FILE_TRANSFER_TIMEOUT = 3600000;
+export const UPLOAD_CHUNK_SIZE = 256 * 1024;
+export const DOWNLOAD_CHUNK_SIZE = 1024 * 1024;
+export const CHUNK_TIMEOUT = 60000;
+export const CHUNK_RETRIES = 3;
+export const PART_SUFFIX = ".skpart";
+
+const MANIFEST_DIR = path.join(os.tmpdir(), `shellkeeper-transfers-${os.userInfo().uid}`);
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(2)}KB`;
+  }
+  return `${(bytes / 1024 / 1024).toFixed(2)}MB`;
+}
+
+function sha256(data: Buffer): string {
+  return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+function hashLocalFile(filePath: string): string {
+  const hash = crypto.createHash("sha256");
+  const buffer = Buffer.alloc(4 * 1024 * 1024);
+  const fd = fs.openSync(filePath, "r");
+  try {
+    let bytesRead: number;
+    while ((bytesRead = fs.readSync(fd, buffer, 0, buffer.length, null)) > 0) {
+      hash.update(buffer.subarray(0, bytesRead));
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+  return hash.digest("hex");
+}
+
+function parseHash(output: string): string | null {
+  const match = output.match(/\b([0-9a-f]{64})\b/i);
+  return match ? match[1].toLowerCase() : null;
+}
+
+function runScript(session: TerminalSession, lines: string[], timeout: number, label: string): Promise<string> {
+  return executeCommand(session, posixCommand(lines.join("; "), session.shellFamily), timeout, { label });
+}
+
+function payloadCommand(family: ShellFamily, file: string, payload: string, then: string): string {
+  if (family === "powershell") {
+    return `Set-Content -NoNewline -Encoding ascii -Path ${shellQuote(file, family)} -Value '${payload}'; ${then}`;
+  }
+  return `printf '%s' '${payload}' > ${shellQuote(file, family)} && ${then}`;
+}
+
+async function probeRemote(session: TerminalSession, remotePath: string, fileName: string | null): Promise<RemoteInfo> {
+  const output = await runScript(
+    session,
+    [
+      `p=${quotePath(remotePath)}`,
+      `case "$p" in /*) ;; *) p="$PWD/$p" ;; esac`,
+      ...(fileName ? [`if [ -d "$p" ]; then p="\${p%/}/"${shellQuote(fileName)}; fi`] : []),
+      printValueCommand("path", `"$p"`),
+      `if [ -f "$p" ]; then echo "size=$(wc -c < "$p")"; elif [ -e "$p" ]; then echo "size=-1"; fi`,
+      `if command -v sha256sum >/dev/null 2>&1; then echo "sha256=sha256sum"`,
+      `elif command -v shasum >/dev/null 2>&1; then echo "sha256=shasum -a 256"`,
+      `elif command -v openssl >/dev/null 2>&1; then echo "sha256=openssl dgst -sha256"; fi`,
+      `if printf 'eA==' | base64 -d >/dev/null 2>&1; then echo "decode=base64 -d"; else echo "decode=base64 -D"; fi`,
+      `if command -v gzip >/dev/null 2>&1; then echo "gzip=1"; fi`,
+    ],
+    10000,
+    `(probe ${remotePath} for transfer)`
+  );
+
+  const values = new Map<string, string>();
+  for (const line of output.split("\n")) {
+    const separator = line.indexOf("=");
+    if (separator > 0) {
+      values.set(line.substring(0, separator).trim(), line.substring(separator + 1).trim());
+    }
+  }
+
+  const resolved = parsePrintedValue(output, "path");
+  if (resolved === null) {
+    throw new Error(`Could not inspect remote path ${remotePath}: ${output || "(no output)"}`);
+  }
+
+  return {
+    path: resolved,
+    size: values.has("size") ? parseInt(values.get("size")!, 10) : null,
+    sha256: values.get("sha256") || null,
+    decode: values.get("decode") || "base64 -d",
+    gzip: values.get("gzip") === "1",
+  };
+}
+
+function manifestPath(
+  direction: TransferManifest["direction"],
+  session: TerminalSession,
+  localPath: string,
+  remotePath: string
+): string {
+  const key = crypto
+    .createHash("sha1")
+    .update(JSON.stringify([direction, sessionHost(session), path.resolve(localPath), remotePath]))
+    .digest("hex");
+  return path.join(MANIFEST_DIR, `${key}.json`);
+}
+
+function readManifest(file: string): TransferManifest | null {
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (e) {
+    return null;
+  }
+}
+
+function writeManifest(file: string, manifest: TransferManifest): void {
+  fs.mkdirSync(MANIFEST_DIR, { recursive: true, mode: 0o700 });
+  fs.writeFileSync(file, JSON.stringify(manifest, null, 2), { mode: 0o600 });
+}
+
+function resumeError(error: Error, tool: string, transferred: number, total: number): Error {
+  return new Error(
+    `${error.message}\n` +
+    `Transferred ${formatSize(transferred)} of ${formatSize(total)} before stopping. ` +
+    `Call ${tool} again with the same paths to resume.`
+  );
+}
+
+function transferSummary(
+  remote: RemoteInfo,
+  hash: string,
+  chunkCount: number,
+  compress: boolean,
+  resumedChunks: number
+): string {
+  const verification = remote.sha256
+    ? `Verified: SHA-256 ${hash} (per chunk and whole file)`
+    : "Not verified: no sha256sum, shasum or openssl on the remote host";
+
+  return (
+    `${verification}\n` +
+    `Chunks: ${chunkCount}${compress ? ", gzip compressed" : ""}` +
+    (resumedChunks > 0 ? `, resumed at chunk ${resumedChunks + 1}` : "")
+  );
+}
+
+export async function uploadFile(
+  session: TerminalSession,
+  localPath: string,
+  remotePath: string,
+  options: TransferOptions = {}
+): Promise<string> {
+  const result = await sendFile(session, localPath, remotePath, options);
+  return `File uploaded successfully: ${localPath} -> ${result.remotePath}\n${result.listing}\n${result.summary}`;
+}
+
+export async function sendFile(
+  session: TerminalSession,
+  localPath: string,
+  remotePath: string,
+  options: TransferOptions = {}
+): Promise<TransferResult> {
+  const { timeout = FILE_TRANSFER_TIMEOUT, resume = true, onProgress } = options;
+  const deadline = Date.now() + timeout;
+
+  if (!fs.existsSync(localPath)) {
+    throw new Error(`Local file not found: ${localPath}`);
+  }
+
+  const stats = fs.statSync(localPath);
+  if (stats.size > MAX_FILE_SIZE) {
+    throw new Error(
+      `File size (${(stats.size / 1024 / 1024).toFixed(2)}MB) exceeds maximum allowed size (${MAX_FILE_SIZE / 1024 / 1024}MB)`
+    );
+  }
+
+  const localFilename = path.basename(localPath);
+  const fileHash = hashLocalFile(localPath);
+  const manifestFile = manifestPath("upload", session, localPath, remotePath);
+  let manifest = resume ? readManifest(manifestFile) : null;
+  if (manifest && (manifest.sha256 !== fileHash || manifest.size !== stats.size || manifest.chunkSize !== UPLOAD_CHUNK_SIZE)) {
+    manifest = null;
+  }
+
+  const remote = await probeRemote(session, manifest ? manifest.remotePath : remotePath, localFilename);
+  let finalRemotePath = remote.path;
+
+  if (!manifest && !options.overwrite && remote.size !== null) {
+    const randomSuffix = Math.random().toString(36).substring(2, 8);
+    const ext = path.extname(localFilename);
+    const nameWithoutExt = path.basename(finalRemotePath, ext);
+    const dir = path.posix.dirname(finalRemotePath);
+    finalRemotePath = `${dir}/${nameWithoutExt}_${randomSuffix}${ext}`;
+  }
+
+  const partPath = finalRemotePath + PART_SUFFIX;
+  const compress = options.compress !== false && remote.gzip;
+  const chunkCount = Math.ceil(stats.size / UPLOAD_CHUNK_SIZE);
+
+  const prepared = await runScript(
+    session,
+    [
+      `p=${shellQuote(partPath)}`,
+      ...(manifest ? [] : [`rm -f "$p"`]),
+      `if [ -f "$p" ]; then n=$(( $(wc -c < "$p") / ${UPLOAD_CHUNK_SIZE} )); else n=0; fi`,
+      `if [ "$n" -gt ${chunkCount} ]; then n=${chunkCount}; fi`,
+      `dd if=/dev/null of="$p" bs=${UPLOAD_CHUNK_SIZE} seek=$n 2>/dev/null`,
+      `echo "chunks=$n"`,
+    ],
+    10000,
+    `(prepare upload of ${localFilename})`
+  );
+  const resumedChunks = parseInt(prepared.match(/chunks=(\d+)/)?.[1] || "0", 10);
+
+  writeManifest(manifestFile, {
+    direction: "upload",
+    localPath: path.resolve(localPath),
+    remotePath: finalRemotePath,
+    size: stats.size,
+    sha256: fileHash,
+    chunkSize: UPLOAD_CHUNK_SIZE,
+    updatedAt: new Date().toISOString(),
+  });
+
+  let transferred = Math.min(resumedChunks * UPLOAD_CHUNK_SIZE, stats.size);
+  onProgress?.(transferred, stats.size);
+
+  const fd = fs.openSync(localPath, "r");
+  try {
+    for (let index = resumedChunks; index < chunkCount; index++) {
+      if (Date.now() > deadline) {
+        throw new Error(`Upload timed out after ${timeout}ms`);
+      }
+
+      const raw = Buffer.alloc(Math.min(UPLOAD_CHUNK_SIZE, stats.size - index * UPLOAD_CHUNK_SIZE));
+      fs.readSync(fd, raw, 0, raw.length, index * UPLOAD_CHUNK_SIZE);
+      await uploadChunk(session, remote, partPath, raw, compress, `(upload ${localFilename} chunk ${index + 1}/${chunkCount})`);
+
+      transferred += raw.length;
+      onProgress?.(transferred, stats.size);
+    }
+  } catch (error: any) {
+    throw resumeError(error, "terminal_upload_file", transferred, stats.size);
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  const finalized = await runScript(
+    session,
+    [
+      `p=${shellQuote(partPath)}`,
+      `f=${shellQuote(finalRemotePath)}`,
+      remote.sha256
+        ? `h=$(${remote.sha256} < "$p"); case "$h" in *${fileHash}*) mv -f "$p" "$f" && ls -lh "$f" ;; *) rm -f "$p"; echo "file_mismatch $h" ;; esac`
+        : `mv -f "$p" "$f" && ls -lh "$f"`,
+    ],
+    Math.max(deadline - Date.now(), CHUNK_TIMEOUT),
+    `(verify upload of ${localFilename})`
+  );
+  fs.rmSync(manifestFile, { force: true });
+
+  if (finalized.includes("file_mismatch")) {
+    throw new Error(
+      `Uploaded file failed SHA-256 verification (expected ${fileHash}, remote has ${parseHash(finalized) || "unknown"}). ` +
+      `The partial upload was discarded.`
+    );
+  }
+
+  return {
+    localPath,
+    remotePath: finalRemotePath,
+    size: stats.size,
+    sha256: fileHash,
+    listing: finalized,
+    summary: transferSummary(remote, fileHash, chunkCount, compress, resumedChunks),
+  };
+}
+
+async function uploadChunk(
+  session: TerminalSession,
+  remote: RemoteInfo,
+  partPath: string,
+  raw: Buffer,
+  compress: boolean,
+  label: string
+): Promise<void> {
+  const compressed = compress ? zlib.gzipSync(raw) : null;
+  const gzipped = compressed !== null && compressed.length < raw.length;
+  const payload = (gzipped ? compressed : raw).toString("base64");
+  const expected = sha256(raw);
+  const decode = `${remote.decode} < "$p.b64"${gzipped ? " | gzip -dc" : ""} > "$p.chunk"`;
+  const script = [
+    `p=${shellQuote(partPath)}`,
+    remote.sha256
+      ? `${decode} && h=$(${remote.sha256} < "$p.chunk") && case "$h" in *${expected}*) cat "$p.chunk" >> "$p" && echo chunk_ok ;; *) echo "chunk_mismatch $h" ;; esac`
+      : `${decode} && cat "$p.chunk" >> "$p" && echo chunk_ok`,
+    `rm -f "$p.b64" "$p.chunk"`,
+  ];
+
+  for (let attempt = 1; attempt <= CHUNK_RETRIES; attempt++) {
+    const output = await executeCommand(
+      session,
+      payloadCommand(session.shellFamily, partPath + ".b64", payload, posixCommand(script.join("; "), session.shellFamily)),
+      CHUNK_TIMEOUT,
+      { label }
+    );
+    if (output.includes("chunk_ok")) {
+      return;
+    }
+    console.error(`[ShellKeeper] ${label} failed verification (attempt ${attempt}): ${output}`);
+  }
+
+  throw new Error(`${label} failed SHA-256 verification after ${CHUNK_RETRIES} attempts`);
+}
+
+export async function downloadFile(
+  session: TerminalSession,
+  remotePath: string,
+  localPath: string,
+  options: TransferOptions = {}
+): Promise<string> {
+  const result = await receiveFile(session, remotePath, localPath, options);
+  return `File downloaded successfully: ${remotePath} -> ${localPath}\n${result.listing}\n${result.summary}`;
+}
+
+export async function receiveFile(
+  session: TerminalSession,
+  remotePath: string,
+  localPath: string,
+  options: TransferOptions = {}
+): Promise<TransferResult> {
+  const { timeout = FILE_TRANSFER_TIMEOUT, resume = true, onProgress } = options;
+  const deadline = Date.now() + timeout;
+
+  const remote = await probeRemote(session, remotePath, null);
+  if (remote.size === null || remote.size < 0 || isNaN(remote.size)) {
+    throw new Error(`Remote file not found or cannot access: ${remotePath}`);
+  }
+
+  const fileSize = remote.size;
+  if (fileSize > MAX_FILE_SIZE) {
+    throw new Error(
+      `File size (${(fileSize / 1024 / 1024).toFixed(2)}MB) exceeds maximum allowed size (${MAX_FILE_SIZE / 1024 / 1024}MB)`
+    );
+  }
+
+  const remoteHash = remote.sha256
+    ? parseHash(
+        await runScript(
+          session,
+          [`${remote.sha256} < ${shellQuote(remote.path)}`],
+          Math.max(deadline - Date.now(), CHUNK_TIMEOUT),
+          `(hash ${remotePath} for download)`
+        )
+      )
+    : null;
+
+  const localDir = path.dirname(localPath);
+  if (!fs.existsSync(localDir)) {
+    fs.mkdirSync(localDir, { recursive: true });
+  }
+
+  const partPath = localPath + PART_SUFFIX;
+  const manifestFile = manifestPath("download", session, localPath, remotePath);
+  const manifest = resume ? readManifest(manifestFile) : null;
+  const canResume =
+    manifest !== null &&
+    manifest.sha256 === remoteHash &&
+    manifest.size === fileSize &&
+    manifest.chunkSize === DOWNLOAD_CHUNK_SIZE &&
+    fs.existsSync(partPath);
+
+  const chunkCount = Math.ceil(fileSize / DOWNLOAD_CHUNK_SIZE);
+  const resumedChunks = canResume ? Math.min(Math.floor(fs.statSync(partPath).size / DOWNLOAD_CHUNK_SIZE), chunkCount) : 0;
+  if (canResume) {
+    fs.truncateSync(partPath, resumedChunks * DOWNLOAD_CHUNK_SIZE);
+  } else {
+    fs.writeFileSync(partPath, "");
+  }
+
+  writeManifest(manifestFile, {
+    direction: "download",
+    localPath: path.resolve(localPath),
+    remotePath: remote.path,
+    size: fileSize,
+    sha256: remoteHash,
+    chunkSize: DOWNLOAD_CHUNK_SIZE,
+    updatedAt: new Date().toISOString(),
+  });
+
+  const compress = options.compress !== false && remote.gzip;
+  const remoteName = path.posix.basename(remote.path);
+  let transferred = Math.min(resumedChunks * DOWNLOAD_CHUNK_SIZE, fileSize);
+  onProgress?.(transferred, fileSize);
+
+  try {
+    for (let index = resumedChunks; index < chunkCount; index++) {
+      if (Date.now() > deadline) {
+        throw new Error(`Download timed out after ${timeout}ms`);
+      }
+
+      const expectedLength = Math.min(DOWNLOAD_CHUNK_SIZE, fileSize - index * DOWNLOAD_CHUNK_SIZE);
+      const data = await downloadChunk(
+        session,
+        remote,
+        index,
+        expectedLength,
+        compress,
+        `(download ${remoteName} chunk ${index + 1}/${chunkCount})`
+      );
+      fs.appendFileSync(partPath, data);
+
+      transferred += data.length;
+      onProgress?.(transferred, fileSize);
+    }
+  } catch (error: any) {
+    throw resumeError(error, "terminal_download_file", transferred, fileSize);
+  }
+
+  const localHash = hashLocalFile(partPath);
+  fs.rmSync(manifestFile, { force: true });
+
+  if (remoteHash && localHash !== remoteHash) {
+    fs.rmSync(partPath, { force: true });
+    throw new Error(
+      `Downloaded file failed SHA-256 verification (remote ${remoteHash}, local ${localHash}). ` +
+      `The remote file may have changed during the transfer; the partial download was discarded.`
+    );
+  }
+
+  fs.renameSync(partPath, localPath);
+  const localStats = fs.statSync(localPath);
+
+  return {
+    localPath,
+    remotePath: remote.path,
+    size: localStats.size,
+    sha256: localHash,
+    listing: `Size: ${(localStats.size / 1024).toFixed(2)}KB`,
+    summary: transferSummary(remote, localHash, chunkCount, compress, resumedChunks),
+  };
+}
+
+async function downloadChunk(
+  session: TerminalSession,
+  remote: RemoteInfo,
+  index: number,
+  expectedLength: number,
+  compress: boolean,
+  label: string
+): Promise<Buffer> {
+  const read = `dd if="$p" bs=${DOWNLOAD_CHUNK_SIZE} skip=${index} count=1 2>/dev/null`;
+  const script = [
+    `p=${shellQuote(remote.path)}`,
+    ...(remote.sha256 ? [`echo "sha256=$(${read} | ${remote.sha256})"`] : []),
+    `echo "data:"`,
+    `${read}${compress ? " | gzip -c" : ""} | base64`,
+  ];
+
+  let problem = "";
+  for (let attempt = 1; attempt <= CHUNK_RETRIES; attempt++) {
+    const output = await runScript(session, script, CHUNK_TIMEOUT, label);
+    const dataStart = output.indexOf("data:");
+    if (dataStart === -1) {
+      problem = "no data in the output";
+    } else {
+      const encoded = Buffer.from(output.substring(dataStart + 5).replace(/\s/g, ""), "base64");
+      let data: Buffer | null = encoded;
+      if (compress) {
+        try {
+          data = zlib.gunzipSync(encoded);
+        } catch (error: any) {
+          data = null;
+          problem = `chunk ${index} could not be decompressed: ${error.message}`;
+        }
+      }
+      if (data) {
+        const expected = remote.sha256 ? parseHash(output.substring(0, dataStart)) : null;
+        if (data.length === expectedLength && (!expected || sha256(data) === expected)) {
+          return data;
+        }
+        problem = data.length !== expectedLength
+          ? `chunk ${index} has ${data.length} bytes instead of ${expectedLength}`
+          : `chunk ${index} does not match its SHA-256`;
+      }
+    }
+    console.error(`[ShellKeeper] ${label} failed verification (attempt ${attempt}): ${problem}`);
+  }
+
+  throw new Error(`${label} failed verification after ${CHUNK_RETRIES} attempts: ${problem}`);
+}
@@ -0,0 +1,36 @@
+/**
+ * Copyright (c) 2025 tranhuucanh39@gmail.com
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export function cleanOutput(output: string): string {
+  return output
+    .replace(/\x1b\[[0-9;?]*[a-zA-Z]/g, "")
+    .replace(/\x1b\][0-9;]*\x07/g, "")
+    .replace(/\x1b\][0-9;]*;[^\x07]*\x07/g, "")
+    .replace(/\x1b[><=]/g, "")
+    .replace(/\[\?[0-9]+[hl]/g, "")
+    .replace(/\r\n/g, "\n")
+    .replace(/\r/g, "\n")
+    .replace(/\[READY\]\$ /g, "")
+    .replace(/^%\s*$/gm, "")
+    .replace(/^❯\s*$/gm, "")
+    .replace(/^~\s*$/gm, "")
+    .replace(/^\$\s*$/gm, "")
+    .replace(/^>\s*$/gm, "")
+    .replace(/^#\s*$/gm, "")
+    .replace(/^[❯$>#]\s+/gm, "")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+export function globToRegExp(glob: string): RegExp {
+  const escaped = glob.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".");
+  return new RegExp(`^${escaped}$`);
+}
@@ -0,0 +1,30 @@
+/**
+ * Copyright (c) 2025 tranhuucanh39@gmail.com
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { patchRemoteFile, writeRemoteFile } from "../src/files.js";
+import type { TerminalSession } from "../src/session.js";
+
+// Redaction markers are refused before the session is touched.
+const session = {} as TerminalSession;
+
+describe("redaction markers", () => {
+  it("are refused in written content unless allowed", async () => {
+    await assert.rejects(
+      writeRemoteFile(session, "app.conf", "db_password=[REDACTED:password]\n"),
+      /allow_redacted: true/
+    );
+  });
+
+  it("are refused in patches unless allowed", async () => {
+    await assert.rejects(
+      patchRemoteFile(session, "app.conf", "@@ -1 +1 @@\n-a\n+token=[REDACTED:password]\n"),
+      /allow_redacted: true/
+    );
+  });
+});
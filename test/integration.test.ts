@@ -0,0 +1,75 @@
+/**
+ * Copyright (c) 2025 tranhuucanh39@gmail.com
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  buildCommandMarkers,
+  handoverTrailer,
+  mayChangeShell,
+  parseCommandOutput,
+  probedShellFamily,
+} from "../src/integration.js";
+
+const ESC = "\x1b";
+const BEL = "\x07";
+
+describe("command markers", () => {
+  it("writes the trailer in the syntax of the session's shell family", () => {
+    assert.match(buildCommandMarkers("m1", "ls").trailerLine, /__sk_ec=\$\?;.*printf '\\033\]133;D;m1;%s;%s;posix;/);
+    assert.match(buildCommandMarkers("m1", "ls", null, "fish").trailerLine, /set -g __sk_ec \$status;.*;fish;/);
+    assert.match(buildCommandMarkers("m1", "ls", null, "powershell").trailerLine, /\[char\]27\)\]133;D;m1;.*;powershell;/);
+    for (const family of ["posix", "fish", "powershell"] as const) {
+      assert.ok(!buildCommandMarkers("m1", "ls", null, family).trailerLine.includes(ESC), family);
+    }
+  });
+
+  it("parses the family, exit code, context and cwd from the trailer", () => {
+    const markers = buildCommandMarkers("m2", "ls", null, "fish");
+    const buffer = `${ESC}]133;C;m2${BEL}a b\r\n${ESC}]133;D;m2;3;1;fish;me|box|Linux|fish|42|;/srv/app${BEL}`;
+    const parsed = parseCommandOutput(buffer, markers);
+    assert.equal(parsed.complete, true);
+    assert.equal(parsed.family, "fish");
+    assert.equal(parsed.exitCode, 3);
+    assert.equal(parsed.integrated, true);
+    assert.equal(parsed.context, "me|box|Linux|fish|42|");
+    assert.equal(parsed.cwd, "/srv/app");
+    assert.equal(parsed.stdout, "a b");
+  });
+
+  it("accepts an empty integration flag from fish and PowerShell", () => {
+    const markers = buildCommandMarkers("m3", "ls", null, "powershell");
+    const parsed = parseCommandOutput(`${ESC}]133;D;m3;0;;powershell;;C:\\Users\\me${BEL}`, markers);
+    assert.equal(parsed.complete, true);
+    assert.equal(parsed.integrated, false);
+    assert.equal(parsed.cwd, "C:\\Users\\me");
+  });
+
+  it("probes the shell after commands that may switch shells", () => {
+    assert.equal(mayChangeShell("ssh -p 2222 db1"), true);
+    assert.equal(mayChangeShell("cd /srv && TERM=xterm /usr/bin/ssh db1"), true);
+    assert.equal(mayChangeShell("sudo -u deploy -i"), true);
+    assert.equal(mayChangeShell("docker exec -it web bash"), true);
+    assert.equal(mayChangeShell("exit"), true);
+    assert.equal(mayChangeShell("ls -la; cat ssh.log"), false);
+    assert.equal(mayChangeShell("sudo systemctl restart nginx"), false);
+    assert.equal(buildCommandMarkers("m4", "ls").probeLine, null);
+
+    const markers = buildCommandMarkers("m4", "ssh db1");
+    assert.ok(markers.probeLine);
+    assert.equal(probedShellFamily(`${markers.probeLine}\r\n`, markers), null);
+    assert.equal(probedShellFamily("m4F;;\r\n", markers), "posix");
+    assert.equal(probedShellFamily("m4F;4242;\r\n", markers), "fish");
+    assert.equal(probedShellFamily("m4F;;System.Management.Automation.PSVersionHashTable\r\n", markers), "powershell");
+  });
+
+  it("hands the command over with a trailer for the new family", () => {
+    const markers = buildCommandMarkers("m5", "ssh db1");
+    const trailer = handoverTrailer(markers, "fish");
+    assert.match(trailer, /set -g __sk_ec 0;.*'D;m5;'/);
+  });
+});
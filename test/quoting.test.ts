@@ -0,0 +1,126 @@
+/**
+ * Copyright (c) 2025 tranhuucanh39@gmail.com
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import { describe, it } from "node:test";
+import {
+  cdCommand,
+  exportCommand,
+  parsePrintedValue,
+  posixCommand,
+  printValueCommand,
+  quotePath,
+  ShellFamily,
+  shellFamilyOf,
+  shellQuote,
+} from "../src/quoting.js";
+
+const NASTY_NAMES = [
+  "plain.txt",
+  "with space.txt",
+  "$(touch pwned).txt",
+  "`touch pwned`.txt",
+  "semi;colon.txt",
+  "it's.txt",
+  "\"double\".txt",
+  "new\nline.txt",
+  "back\\slash.txt",
+  "-leading-dash",
+  "trailing space ",
+  "ünïcödé 日本.txt",
+  "*?[glob].txt",
+  "$HOME",
+  "",
+];
+
+const HOME = "/home/sk test";
+
+const SHELLS: Array<[string, ShellFamily]> = [
+  ["sh", "posix"],
+  ["bash", "posix"],
+  ["dash", "posix"],
+  ["zsh", "posix"],
+  ["ksh", "posix"],
+  ["fish", "fish"],
+  ["pwsh", "powershell"],
+];
+
+function shellArgs(shell: string, script: string): string[] {
+  return shell === "pwsh" ? ["-NoProfile", "-NonInteractive", "-Command", script] : ["-c", script];
+}
+
+function run(shell: string, script: string): string {
+  const result = spawnSync(shell, shellArgs(shell, script), { encoding: "utf8", env: { PATH: process.env.PATH, HOME } });
+  assert.equal(result.status, 0, result.stderr);
+  return result.stdout;
+}
+
+function print(family: ShellFamily, expression: string): string {
+  return family === "powershell" ? `[Console]::Write(${expression})` : `printf '%s' ${expression}`;
+}
+
+function shellAvailable(shell: string): boolean {
+  return spawnSync(shell, shellArgs(shell, "exit 0"), { stdio: "ignore" }).status === 0;
+}
+
+describe("quoting", () => {
+  for (const [shell, family] of SHELLS) {
+    describe(shell, { skip: !shellAvailable(shell) && `${shell} is not installed` }, () => {
+      it("shellQuote passes values through literally", () => {
+        for (const name of NASTY_NAMES) {
+          assert.equal(run(shell, print(family, shellQuote(name, family))), name);
+        }
+      });
+
+      it("quotePath expands a leading ~ and nothing else", () => {
+        assert.equal(run(shell, print(family, quotePath("~", family))), HOME);
+        assert.equal(run(shell, print(family, quotePath("~/a b/$(x)", family))), `${HOME}/a b/$(x)`);
+        assert.equal(run(shell, print(family, quotePath("~user/x", family))), "~user/x");
+        for (const name of NASTY_NAMES) {
+          assert.equal(run(shell, print(family, quotePath(`/tmp/${name}`, family))), `/tmp/${name}`);
+        }
+      });
+
+      it("posixCommand runs the script as one argument", () => {
+        for (const name of NASTY_NAMES) {
+          const script = `n=${shellQuote(name)}; ${printValueCommand("value", `"$n"`)}`;
+          assert.equal(parsePrintedValue(run(shell, posixCommand(script, family)), "value"), name);
+        }
+      });
+
+      it("exportCommand and cdCommand keep values literal", () => {
+        const value = NASTY_NAMES.join("|");
+        const variable = family === "powershell" ? "$env:SK_VALUE" : `"$SK_VALUE"`;
+        assert.equal(run(shell, `${exportCommand("SK_VALUE", value, family)}; ${print(family, variable)}`), value);
+        assert.equal(run(shell, `${cdCommand("/", family)}; ${print(family, `"$PWD"`)}`), "/");
+      });
+    });
+  }
+
+  it("quotes for fish and PowerShell", () => {
+    assert.equal(shellQuote(`it's a\\b`, "fish"), `'it\\'s a\\\\b'`);
+    assert.equal(shellQuote("it's ‘x’", "powershell"), "'it''s ‘‘x’’'");
+    assert.equal(quotePath("~/a $b`c", "powershell"), '"$HOME/a `$b``c"');
+    assert.equal(exportCommand("A", "x y", "fish"), "set -gx A 'x y'");
+    assert.equal(exportCommand("A", "x y", "powershell"), "$env:A = 'x y'");
+  });
+
+  it("exportCommand rejects invalid variable names", () => {
+    assert.throws(() => exportCommand("A;B", "x"), /Invalid environment variable name/);
+  });
+
+  it("shellFamilyOf recognises fish and PowerShell", () => {
+    for (const shell of ["/bin/bash", "/usr/bin/zsh", "dash", "/bin/sh -l", "ksh"]) {
+      assert.equal(shellFamilyOf(shell), "posix", shell);
+    }
+    assert.equal(shellFamilyOf("/usr/bin/fish"), "fish");
+    for (const shell of ["pwsh", "/usr/bin/pwsh-preview", "C:\\Windows\\powershell.exe", "powershell.exe -NoLogo"]) {
+      assert.equal(shellFamilyOf(shell), "powershell", shell);
+    }
+  });
+});
@@ -0,0 +1,26 @@
+/**
+ * Copyright (c) 2025 tranhuucanh39@gmail.com
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { sshHopCommand } from "../src/reconnect.js";
+
+describe("sshHopCommand", () => {
+  it("keeps only the ssh command of a compound command line", () => {
+    assert.equal(sshHopCommand("ssh -p 2222 deploy@db1 && rm -rf /tmp/x"), "ssh -p 2222 deploy@db1");
+    assert.equal(sshHopCommand("cd /srv; TERM=xterm ssh db1 | tee log"), "ssh db1");
+    assert.equal(sshHopCommand("/usr/bin/ssh -J 'bastion' db1"), "/usr/bin/ssh -J bastion db1");
+  });
+
+  it("quotes arguments that need it", () => {
+    assert.equal(sshHopCommand(`ssh -o "SetEnv=A=b c" db1`), `ssh -o 'SetEnv=A=b c' db1`);
+  });
+
+  it("returns null when there is no ssh command", () => {
+    assert.equal(sshHopCommand("sudo -i"), null);
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Copyright (c) 2025 tranhuucanh39@gmail.com
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { sshHops } from "../src/context.js";
+import { createSession, runCommand, sessions, TerminalSession } from "../src/session.js";
+
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "shellkeeper-test-"));
+process.env.SHELLKEEPER_AUDIT_LOG = path.join(workDir, "audit.jsonl");
+
+const FAKE_HOP = `SSH_CONNECTION="192.0.2.1 50000 192.0.2.2 22" bash --norc`;
+
+describe("disconnect detection", () => {
+  let session: TerminalSession;
+  before(async () => {
+    fs.writeFileSync(path.join(workDir, "ssh.log"), "Connection to db1 closed by remote host.\n");
+    session = createSession("test-disconnect", "/bin/bash", { cwd: workDir, env: { HOME: workDir } });
+    await runCommand(session, "true");
+    await runCommand(session, FAKE_HOP);
+    await runCommand(session, "true");
+    assert.equal(sshHops(session.context).length, 1);
+  });
+  after(() => {
+    sessions.delete(session.id);
+    session.ptyProcess.kill();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it("keeps the session healthy when output only mentions a closed connection", async () => {
+    const frames = session.context.frames.length;
+    const result = await runCommand(session, "cat ssh.log");
+    assert.match(result.stdout, /closed by remote host/);
+    assert.equal(session.degraded, null);
+    assert.equal(session.context.frames.length, frames);
+
+    await runCommand(session, "true");
+    assert.equal(session.degraded, null);
+    assert.equal(sshHops(session.context).length, 1);
+  });
+
+  it("degrades the session once the trailer shows the hop is gone", async () => {
+    await assert.rejects(runCommand(session, "cat ssh.log; kill -9 $$"), /closed by remote host/);
+    assert.equal(session.degraded?.reason, "Connection to db1 closed by remote host");
+    assert.equal(sshHops(session.context).length, 0);
+  });
+});
@@ -0,0 +1,29 @@
+/**
+ * Copyright (c) 2025 tranhuucanh39@gmail.com
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { buildSshArgs } from "../src/ssh.js";
+
+describe("buildSshArgs", () => {
+  it("ends the options before the destination", () => {
+    const args = buildSshArgs({ host: "example.com", user: "deploy", options: ["Compression=yes"] }, 30000);
+    assert.deepEqual(args.slice(-2), ["--", "example.com"]);
+    assert.ok(args.includes("Compression=yes"));
+  });
+
+  it("rejects hosts that would be read as options", () => {
+    assert.throws(() => buildSshArgs({ host: "-oProxyCommand=sh -c id" }, 30000), /Invalid SSH host/);
+    assert.throws(() => buildSshArgs({ host: "example.com", jumpHosts: ["-oProxyCommand=id"] }, 30000), /Invalid SSH host/);
+  });
+
+  it("rejects options that run local commands", () => {
+    for (const option of ["ProxyCommand=sh -c id", "localcommand id", "PermitLocalCommand=yes", "KnownHostsCommand=/bin/id"]) {
+      assert.throws(() => buildSshArgs({ host: "example.com", options: [option] }, 30000), /is not allowed/, option);
+    }
+  });
+});
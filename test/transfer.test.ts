@@ -0,0 +1,115 @@
+/**
+ * Copyright (c) 2025 tranhuucanh39@gmail.com
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import * as crypto from "node:crypto";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { downloadPath, uploadPath } from "../src/archive.js";
+import { createSession, sessions, TerminalSession } from "../src/session.js";
+import { tmuxAvailable } from "../src/tmux.js";
+import { receiveFile, sendFile } from "../src/transfer.js";
+
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "shellkeeper-test-"));
+process.env.SHELLKEEPER_AUDIT_LOG = path.join(workDir, "audit.jsonl");
+process.env.TMUX_TMPDIR = workDir;
+
+const NASTY_NAMES = [
+  "with space.bin",
+  "$(touch pwned).bin",
+  "`touch pwned`.bin",
+  "semi;colon.bin",
+  "it's \"quoted\".bin",
+  "new\nline.bin",
+  "-leading-dash",
+];
+
+function sha256(file: string): string {
+  return crypto.createHash("sha256").update(fs.readFileSync(file)).digest("hex");
+}
+
+function closeSession(session: TerminalSession): void {
+  sessions.delete(session.id);
+  session.ptyProcess.kill();
+}
+
+async function roundTrip(session: TerminalSession, name: string, size: number): Promise<void> {
+  const source = path.join(workDir, `source-${session.id}`);
+  const remote = path.join(workDir, session.id, name);
+  const copy = path.join(workDir, `copy-${session.id}`);
+  fs.mkdirSync(path.dirname(remote), { recursive: true });
+  fs.writeFileSync(source, crypto.randomBytes(size));
+
+  const uploaded = await sendFile(session, source, remote, { resume: false, timeout: 120000 });
+  assert.equal(uploaded.remotePath, remote);
+  assert.equal(sha256(remote), sha256(source));
+
+  await receiveFile(session, remote, copy, { resume: false, overwrite: true, timeout: 120000 });
+  assert.equal(sha256(copy), sha256(source));
+}
+
+describe("file transfer", () => {
+  after(() => {
+    spawnSync("tmux", ["kill-server"], { stdio: "ignore" });
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  describe("pty backend", () => {
+    const remoteTmp = path.join(workDir, "remote-tmp");
+    let session: TerminalSession;
+    before(() => {
+      fs.mkdirSync(remoteTmp);
+      session = createSession("test-pty", "/bin/bash", { cwd: workDir, env: { HOME: workDir, TMPDIR: remoteTmp } });
+    });
+    after(() => closeSession(session));
+
+    it("round-trips a file larger than one chunk", async () => {
+      await roundTrip(session, "payload.bin", 600 * 1024);
+    });
+
+    it("round-trips files with shell metacharacters in their names", async () => {
+      for (const name of NASTY_NAMES) {
+        await roundTrip(session, name, 4096);
+      }
+      assert.equal(fs.existsSync(path.join(workDir, "pwned")), false);
+    });
+
+    it("round-trips a directory through a private remote temp dir", async () => {
+      const tree = path.join(workDir, "tree");
+      fs.mkdirSync(path.join(tree, "sub dir"), { recursive: true });
+      for (const name of NASTY_NAMES) {
+        fs.writeFileSync(path.join(tree, "sub dir", name), crypto.randomBytes(1024));
+      }
+
+      const uploaded = await uploadPath(session, tree, path.join(workDir, "uploaded"));
+      const downloaded = await downloadPath(session, path.join(workDir, "uploaded", "tree"), path.join(workDir, "downloaded"));
+      assert.equal(uploaded.bytes, NASTY_NAMES.length * 1024);
+      assert.ok(downloaded.bytes! > NASTY_NAMES.length * 1024);
+      for (const name of NASTY_NAMES) {
+        const source = sha256(path.join(tree, "sub dir", name));
+        assert.equal(sha256(path.join(workDir, "uploaded", "tree", "sub dir", name)), source);
+        assert.equal(sha256(path.join(workDir, "downloaded", "tree", "sub dir", name)), source);
+      }
+      assert.deepEqual(fs.readdirSync(remoteTmp), []);
+    });
+  });
+
+  describe("tmux backend", { skip: !tmuxAvailable() && "tmux is not installed" }, () => {
+    let session: TerminalSession;
+    before(() => {
+      session = createSession("test-tmux", "/bin/bash", { cwd: workDir, env: { HOME: workDir }, backend: "tmux" });
+    });
+    after(() => closeSession(session));
+
+    it("round-trips a file whose chunks exceed the argument size limit", async () => {
+      await roundTrip(session, "payload.bin", 600 * 1024);
+    });
+  });
+});